@@ -3,12 +3,26 @@
  * @type {object}
  * @property {string} name - user-friendly name, displayed in the UI
  * @property {string} id - ID of the breakpoint in Stackdriver Debugger
+ * @property {string} [failure] - description of the error, if the breakpoint
+ *     failed in Stackdriver Debugger
+ * @property {string[]} [snapshotIdList] - IDs of the snapshots captured by a
+ *     repeating breakpoint, from the oldest
+ * @property {boolean} [adopted] - true for a breakpoint set from a saved set,
+ *     which DevTools cannot show
  */
 // https://developer.chrome.com/extensions/devtools_panels
 chrome.devtools.panels.sources.createSidebarPane('Snapshot Explorer', (extensionSidebarPane) => {
   /** @type {WebSocket} */
   let ws;
   let panelWindow;
+  /** @type {?string} ID of the snapshot selected as the base of a diff */
+  let diffBaseId = null;
+  /**
+   * Index of the snapshot shown for each repeating breakpoint, by the ID of
+   * its first snapshot, while paging through its snapshots.
+   * @type {Map<string, number>}
+   */
+  const snapshotIndexMap = new Map();
   extensionSidebarPane.setPage('panel.html');
 
   // Waits for the user to submit a port, then initiates a WebSocket connection.
@@ -25,10 +39,23 @@ chrome.devtools.panels.sources.createSidebarPane('Snapshot Explorer', (extension
         ws.send(JSON.stringify({name: 'initialized'}))
       };
       ws.onmessage = (messageEvent) => {
-        if (messageEvent.name === 'updateBreakpointInfoLists') {
-          renderSidebarPane(messageEvent.data)
+        const message = JSON.parse(messageEvent.data);
+        if (message.name === 'updateBreakpointInfoLists') {
+          renderSidebarPane(message.data)
+        } else if (message.name === 'snapshotArchive') {
+          downloadSnapshotArchive(message.data);
+        } else if (message.name === 'pollerHealth') {
+          renderPollerHealth(message.data);
+        } else if (message.name === 'debuggeeList') {
+          renderDebuggeeList(message.data);
+        } else if (message.name === 'breakpointSetList') {
+          renderBreakpointSetList(message.data);
+        } else if (message.name === 'snapshotDiff') {
+          panelWindow.document.getElementById('diff').textContent = message.data.text;
+        } else if (message.name === 'error') {
+          renderError(message.data);
         } else {
-          renderError(`Received unknown message event: ${messageEvent}`);
+          renderError(`Received unknown message event: ${messageEvent.data}`);
         }
       };
       ws.onerror = (e) => {
@@ -42,6 +69,31 @@ chrome.devtools.panels.sources.createSidebarPane('Snapshot Explorer', (extension
         panelWindow.document.getElementById('init').style.display = 'block';
       };
     });
+    panelWindow.document.getElementById('refresh-debuggees').addEventListener('click', () => {
+      clearError();
+      ws.send(JSON.stringify({name: 'listDebuggees'}));
+    });
+    panelWindow.document.getElementById('save-set').addEventListener('click', () => {
+      const name = panelWindow.prompt('Name of the breakpoint set:');
+      if (name && name.trim()) {
+        clearError();
+        ws.send(JSON.stringify({name: 'saveBreakpointSet', data: name.trim()}));
+      }
+    });
+    panelWindow.document.getElementById('import').addEventListener('change', (e) => {
+      const file = e.target.files[0];
+      if (!file) {
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => {
+        clearError();
+        ws.send(JSON.stringify({name: 'importSnapshot', data: reader.result}));
+      };
+      reader.readAsText(file);
+      // Allows the same file to be imported again.
+      e.target.value = '';
+    });
   });
 
   /** Clears the error message. */
@@ -60,6 +112,8 @@ chrome.devtools.panels.sources.createSidebarPane('Snapshot Explorer', (extension
     if (error && error.code === 1006) {
       errorMessage = `WebSocket connection to 'ws://localhost:${port}/' failed. ` +
           'Please make sure that the local proxy is listening on the right port.';
+    } else if (typeof error === 'string') {
+      errorMessage = error;
     } else {
       errorMessage = JSON.stringify(error);
     }
@@ -73,42 +127,287 @@ chrome.devtools.panels.sources.createSidebarPane('Snapshot Explorer', (extension
    */
   function renderSidebarPane(breakpointInfoLists) {
     const {pendingBreakpointInfoList, capturedSnapshotInfoList} =
-        JSON.parse(breakpointInfoLists);
+        breakpointInfoLists;
     renderBreakpointInfoList(pendingBreakpointInfoList,
-        panelWindow.document.getElementById('pending'));
+        panelWindow.document.getElementById('pending'), false);
     renderBreakpointInfoList(capturedSnapshotInfoList,
-        panelWindow.document.getElementById('captured'));
+        panelWindow.document.getElementById('captured'), true);
     ws.send(JSON.stringify({name: 'acknowledged'}));
   }
 
+  /**
+   * Renders whether the proxy is receiving breakpoint updates.
+   *
+   * @param health - last success and consecutive failures of the polls
+   */
+  function renderPollerHealth(health) {
+    const healthElement = panelWindow.document.getElementById('health');
+    const lastSuccess = health.lastSuccessTime ?
+        new Date(health.lastSuccessTime).toLocaleTimeString() : 'never';
+    if (health.consecutiveFailureCount > 0) {
+      healthElement.className = 'failing';
+      healthElement.textContent =
+          `Polling failed ${health.consecutiveFailureCount} times, retrying in ` +
+          `${Math.ceil(health.retryDelayMs / 1000)} s (last success: ${lastSuccess}).`;
+      healthElement.title = health.lastError;
+    } else {
+      healthElement.className = '';
+      healthElement.textContent = `Polling (last update: ${lastSuccess}).`;
+      healthElement.title = '';
+    }
+  }
+
+  /**
+   * Renders the debuggees of the project, which the proxy can switch to.
+   *
+   * @param debuggeeInfoList - ID, name, labels and whether each debuggee is
+   *     the current one
+   */
+  function renderDebuggeeList(debuggeeInfoList) {
+    const listElement = panelWindow.document.getElementById('debuggees');
+    while (listElement.lastChild) {
+      listElement.removeChild(listElement.lastChild);
+    }
+    debuggeeInfoList.forEach((debuggeeInfo) => {
+      const listItemElement = panelWindow.document.createElement('li');
+      listItemElement.appendChild(panelWindow.document.createTextNode(debuggeeInfo.name));
+      listItemElement.title = Object.keys(debuggeeInfo.labels)
+          .map((label) => `${label}: ${debuggeeInfo.labels[label]}`).join('\n');
+      if (debuggeeInfo.current) {
+        listItemElement.className = 'selected';
+      } else {
+        listItemElement.addEventListener('click', () => {
+          if (panelWindow.confirm(
+              `Switch to the debuggee ${debuggeeInfo.id}? ` +
+              'The breakpoints of the current debuggee will be removed, and ' +
+              'DevTools will have to reconnect.')) {
+            clearError();
+            ws.send(JSON.stringify({name: 'switchDebuggee', data: debuggeeInfo.id}));
+          }
+        });
+      }
+      listElement.appendChild(listItemElement);
+    });
+  }
+
+  /**
+   * Renders the breakpoint sets saved for the debuggee, which can be set again.
+   *
+   * @param {string[]} nameList - names of the breakpoint sets
+   */
+  function renderBreakpointSetList(nameList) {
+    const listElement = panelWindow.document.getElementById('sets');
+    while (listElement.lastChild) {
+      listElement.removeChild(listElement.lastChild);
+    }
+    nameList.forEach((name) => {
+      const listItemElement = panelWindow.document.createElement('li');
+      listItemElement.appendChild(panelWindow.document.createTextNode(name));
+      listItemElement.title = 'Set the breakpoints of this set';
+      listItemElement.addEventListener('click', () => {
+        clearError();
+        ws.send(JSON.stringify({name: 'applyBreakpointSet', data: name}));
+      });
+      listElement.appendChild(listItemElement);
+    });
+  }
+
   /**
    * Renders the list element using the given breakpoint data.
    *
    * @param {BreakpointInfo[]} breakpointInfoList - list of breakpoint info
    * @param {HTMLLIElement} listElement - <li> element in HTML
+   * @param {boolean} captured - true for captured snapshots, which have links
+   *     to export and diff them, false for pending breakpoints
    */
-  function renderBreakpointInfoList(breakpointInfoList, listElement) {
+  function renderBreakpointInfoList(breakpointInfoList, listElement, captured) {
     while (listElement.lastChild) {
       listElement.removeChild(listElement.lastChild);
     }
     breakpointInfoList.forEach((breakpointInfo) => {
-      listElement.appendChild(createListItemElement(breakpointInfo));
+      if (captured && breakpointInfo.snapshotIdList) {
+        breakpointInfo = getPagedBreakpointInfo(breakpointInfo);
+      }
+      const listItemElement = createListItemElement(breakpointInfo, captured);
+      if (captured && breakpointInfo.snapshotIdList) {
+        listItemElement.appendChild(createPagerElement(breakpointInfo));
+      }
+      if (!captured && !breakpointInfo.snapshotIdList) {
+        listItemElement.appendChild(createRepeatElement(breakpointInfo));
+      }
+      if (!captured && breakpointInfo.adopted) {
+        listItemElement.appendChild(createRemoveElement(breakpointInfo));
+      }
+      listElement.appendChild(listItemElement);
+    });
+  }
+
+  /**
+   * @param {BreakpointInfo} breakpointInfo - info of a repeating breakpoint,
+   *     identified by its latest snapshot
+   * @returns {BreakpointInfo} info identified by the snapshot being shown
+   */
+  function getPagedBreakpointInfo(breakpointInfo) {
+    const snapshotIdList = breakpointInfo.snapshotIdList;
+    const index = snapshotIndexMap.has(snapshotIdList[0]) ?
+        snapshotIndexMap.get(snapshotIdList[0]) : snapshotIdList.length - 1;
+    return Object.assign({}, breakpointInfo, {id: snapshotIdList[index]});
+  }
+
+  /**
+   * Creates buttons to page through the snapshots of a repeating breakpoint.
+   *
+   * @param {BreakpointInfo} breakpointInfo - info of a repeating breakpoint
+   * @returns {HTMLSpanElement} pager element in HTML
+   */
+  function createPagerElement(breakpointInfo) {
+    const snapshotIdList = breakpointInfo.snapshotIdList;
+    const index = snapshotIdList.indexOf(breakpointInfo.id);
+    const pagerElement = panelWindow.document.createElement('span');
+    pagerElement.className = 'pager';
+    [['\u2039', index - 1], [`${index + 1}/${snapshotIdList.length}`, null],
+        ['\u203a', index + 1]].forEach(([text, targetIndex]) => {
+      const pageElement = panelWindow.document.createElement('a');
+      pageElement.textContent = text;
+      pageElement.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (targetIndex === null || targetIndex < 0 ||
+            targetIndex >= snapshotIdList.length) {
+          return;
+        }
+        snapshotIndexMap.set(snapshotIdList[0], targetIndex);
+        ws.send(JSON.stringify({name: 'loadSnapshot', data: snapshotIdList[targetIndex]}));
+      });
+      pagerElement.appendChild(pageElement);
+    });
+    return pagerElement;
+  }
+
+  /**
+   * Creates a link which makes a pending breakpoint capture several snapshots.
+   *
+   * @param {BreakpointInfo} breakpointInfo - info of a pending breakpoint
+   * @returns {HTMLAnchorElement} link element in HTML
+   */
+  function createRepeatElement(breakpointInfo) {
+    const repeatElement = panelWindow.document.createElement('a');
+    repeatElement.className = 'export';
+    repeatElement.textContent = 'Repeat';
+    repeatElement.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const maxHitCount = Number(panelWindow.prompt('Number of snapshots to capture:', '5'));
+      if (Number.isInteger(maxHitCount) && maxHitCount > 0) {
+        ws.send(JSON.stringify({
+          name: 'repeatBreakpoint',
+          data: JSON.stringify({breakpointId: breakpointInfo.id, maxHitCount}),
+        }));
+      }
     });
+    return repeatElement;
+  }
+
+  /**
+   * Creates a link which removes a breakpoint set from a saved set, since
+   * DevTools does not show it in the gutter.
+   *
+   * @param {BreakpointInfo} breakpointInfo - info of an adopted breakpoint
+   * @returns {HTMLAnchorElement} link element in HTML
+   */
+  function createRemoveElement(breakpointInfo) {
+    const removeElement = panelWindow.document.createElement('a');
+    removeElement.className = 'export';
+    removeElement.textContent = 'Remove';
+    removeElement.addEventListener('click', (e) => {
+      e.stopPropagation();
+      clearError();
+      ws.send(JSON.stringify({name: 'removeBreakpoint', data: breakpointInfo.id}));
+    });
+    return removeElement;
   }
 
   /**
    * Creates a list element using the given breakpoint info.
    *
-   * @param {BreakpointInfo} breakpointInfo - name and ID of the breakpoint
+   * @param {BreakpointInfo} breakpointInfo - name, ID and failure of the breakpoint
+   * @param {boolean} captured - true to add links to export and diff the
+   *     snapshot, false for a pending breakpoint
    * @returns {HTMLLIElement} list element for the breakpoint in HTML
    */
-  function createListItemElement(breakpointInfo) {
+  function createListItemElement(breakpointInfo, captured) {
     const listItemElement = panelWindow.document.createElement('li');
     const textElement = panelWindow.document.createTextNode(breakpointInfo.name);
     listItemElement.appendChild(textElement);
+    if (breakpointInfo.failure !== undefined) {
+      listItemElement.className = 'failed';
+      listItemElement.title = breakpointInfo.failure;
+      // Failed breakpoints have no snapshot to load, unlike repeating
+      // breakpoints which failed to be set again.
+      if (!breakpointInfo.snapshotIdList) {
+        return listItemElement;
+      }
+    }
     listItemElement.addEventListener('click', () => {
       ws.send(JSON.stringify({name: 'loadSnapshot', data: breakpointInfo.id}))
     });
+    if (captured) {
+      const exportElement = panelWindow.document.createElement('a');
+      exportElement.className = 'export';
+      exportElement.textContent = 'Export';
+      exportElement.addEventListener('click', (e) => {
+        // Exporting a snapshot does not load it.
+        e.stopPropagation();
+        ws.send(JSON.stringify({name: 'exportSnapshot', data: breakpointInfo.id}));
+      });
+      listItemElement.appendChild(exportElement);
+      listItemElement.appendChild(createDiffElement(breakpointInfo, listItemElement));
+    }
     return listItemElement;
   }
+
+  /**
+   * Creates a link which selects the snapshot as the base of a diff, or else
+   * compares the selected snapshot with this one.
+   *
+   * @param {BreakpointInfo} breakpointInfo - name and ID of the snapshot
+   * @param {HTMLLIElement} listItemElement - list element of the snapshot
+   * @returns {HTMLAnchorElement} link element in HTML
+   */
+  function createDiffElement(breakpointInfo, listItemElement) {
+    if (breakpointInfo.id === diffBaseId) {
+      listItemElement.className = 'selected';
+    }
+    const diffElement = panelWindow.document.createElement('a');
+    diffElement.className = 'export';
+    diffElement.textContent = 'Diff';
+    diffElement.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (diffBaseId === null) {
+        diffBaseId = breakpointInfo.id;
+        listItemElement.className = 'selected';
+      } else if (diffBaseId === breakpointInfo.id) {
+        diffBaseId = null;
+        listItemElement.className = '';
+      } else {
+        ws.send(JSON.stringify({
+          name: 'diffSnapshots',
+          data: JSON.stringify({beforeId: diffBaseId, afterId: breakpointInfo.id}),
+        }));
+      }
+    });
+    return diffElement;
+  }
+
+  /**
+   * Saves a snapshot archive from the proxy as a file in the downloads.
+   *
+   * @param archive - archive of a captured snapshot
+   */
+  function downloadSnapshotArchive(archive) {
+    const blob = new Blob([JSON.stringify(archive, null, 2)], {type: 'application/json'});
+    const linkElement = panelWindow.document.createElement('a');
+    linkElement.href = URL.createObjectURL(blob);
+    linkElement.download = `snapshot-${archive.snapshot.id}.json`;
+    linkElement.click();
+    URL.revokeObjectURL(linkElement.href);
+  }
 });
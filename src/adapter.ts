@@ -20,6 +20,18 @@ import {Debugger, Runtime} from 'inspector';
 import * as path from 'path';
 import * as util from 'util';
 import {loggers} from 'winston';
+import {getDebuggeeKey, readBreakpointSetState, SavedBreakpoint, toBreakpointRequest, writeBreakpointSetState} from './breakpoint-sets';
+import {callFunction, evaluateExpression, EvaluationContext, EvaluationError} from './evaluate';
+import {LogReader} from './log-reader';
+import {matchLogpointOutput, parseLogpoint} from './logpoint';
+import {searchScript} from './parse-scripts';
+import {parseStatements} from './parse-statements';
+import {PathMapper, PathMappingOptions} from './path-mapping';
+import {ErrorCode, MessageError, ProtocolError} from './protocol-error';
+import {parseRepeatCondition, RepeatOptions} from './repeat';
+import {createSnapshotArchive, SnapshotArchive, writeSnapshotArchive} from './snapshot-archive';
+import {diffSnapshots, SnapshotDiff} from './snapshot-diff';
+import {SourceMapper} from './source-maps';
 
 const readFileP = util.promisify(fs.readFile);
 
@@ -52,6 +64,8 @@ type Event = DebuggerEvent|RuntimeEvent;
 export type ZeroIndexedLineNumber = number;
 type ZeroIndexedColumnNumber = number;
 type MessageId = number;
+// ID of a DevTools connection, from session.ts.
+type SessionId = number;
 type DebuggerId = number;
 
 // TODO: Remove this when @types/node supports `EnableReturnType`.
@@ -61,27 +75,177 @@ export interface EnableReturnType {
 }
 
 type ProcessedResponse = {}|EnableReturnType|
+                         Runtime.CallFunctionOnReturnType|
+                         Runtime.EvaluateReturnType|
                          Runtime.GetPropertiesReturnType|
+                         Debugger.GetPossibleBreakpointsReturnType|
+                         Debugger.SearchInContentReturnType|
+                         Debugger.EvaluateOnCallFrameReturnType|
                          Debugger.SetBreakpointByUrlReturnType;
 export interface MessageRequest {
   id: MessageId;
   method: string;  // This string is of the form `${Domain}.${Method}`.
-  params?: {}|Runtime.GetPropertiesParameterType|
+  params?: {}|Runtime.CallFunctionOnParameterType|
+      Runtime.EvaluateParameterType|Runtime.GetPropertiesParameterType|
+      Debugger.EvaluateOnCallFrameParameterType|
+      Debugger.GetPossibleBreakpointsParameterType|
       Debugger.RemoveBreakpointParameterType|
+      Debugger.SearchInContentParameterType|
       Debugger.SetBreakpointByUrlParameterType;
 }
 export interface MessageResponse {
   id: MessageId;
-  result: ProcessedResponse;
+  result?: ProcessedResponse;
+  error?: MessageError;
 }
 export interface MessageEvent {
   method: Event;
-  params?: {}|Debugger.PausedEventDataType|Debugger.ScriptParsedEventDataType;
+  params?: {}|Debugger.PausedEventDataType|
+      Debugger.ScriptParsedEventDataType|Runtime.ConsoleAPICalledEventDataType;
+}
+
+export interface SupportedDomain {
+  domain: Domain;
+  methodList: Method[];
+  // Events which the proxy sends, e.g. `Debugger.paused`.
+  eventList: Event[];
+}
+
+/**
+ * The part of the DevTools protocol which the adapter supports, for clients
+ * which inspect the protocol before connecting. Methods which are accepted
+ * without effect are included, but not those rejected as unsupported. Other
+ * domains, whose methods are all accepted without effect, are not listed.
+ */
+export const SUPPORTED_DOMAIN_LIST: SupportedDomain[] = [
+  {
+    domain: 'Debugger',
+    methodList: [
+      'continueToLocation',
+      'disable',
+      'enable',
+      'evaluateOnCallFrame',
+      'getPossibleBreakpoints',
+      'getScriptSource',
+      'getStackTrace',
+      'pause',
+      'pauseOnAsyncCall',
+      'removeBreakpoint',
+      'resume',
+      'searchInContent',
+      'setAsyncCallStackDepth',
+      'setBlackboxPatterns',
+      'setBlackboxedRanges',
+      'setBreakpoint',
+      'setBreakpointByUrl',
+      'setBreakpointOnFunctionCall',
+      'setBreakpointsActive',
+      'setPauseOnExceptions',
+      'setSkipAllPauses',
+      'stepInto',
+      'stepOut',
+      'stepOver'
+    ],
+    eventList: [
+      'Debugger.breakpointResolved', 'Debugger.paused', 'Debugger.resumed',
+      'Debugger.scriptParsed'
+    ],
+  },
+  {
+    domain: 'Runtime',
+    methodList: [
+      'callFunctionOn', 'disable', 'discardConsoleEntries', 'enable',
+      'evaluate', 'getProperties', 'releaseObject', 'releaseObjectGroup',
+      'runIfWaitingForDebugger', 'setAsyncCallStackDepth',
+      'setCustomObjectFormatterEnabled', 'setMaxCallStackSizeToCapture'
+    ],
+    eventList: ['Runtime.consoleAPICalled'],
+  },
+];
+
+/**
+ * The methods of `stackdriver.DebugProxy` which the adapter uses, so that
+ * saved snapshots can also be served without Stackdriver Debug.
+ *
+ * @fires breakpointHit as soon as any breakpoints are hit
+ */
+export interface DebugProxy extends EventEmitter {
+  readonly options: stackdriver.Options;
+  updatePendingBreakpoints(block: boolean): Promise<void>;
+  getDebuggerId(): stackdriver.DebuggerId;
+  getProjectId(): stackdriver.ProjectId;
+  getDebuggees(): Promise<stackdriver.Debuggee[]>;
+  setDebuggeeId(debuggeeId: stackdriver.DebuggeeId): void;
+  getBreakpoint(breakpointId: stackdriver.BreakpointId):
+      Promise<stackdriver.Breakpoint>;
+  getBreakpointList(captured: boolean): stackdriver.Breakpoint[];
+  getSnapshotIdList(captured: boolean): stackdriver.BreakpointId[];
+  setBreakpoint(breakpointRequest: stackdriver.BreakpointRequest):
+      Promise<stackdriver.Breakpoint>;
+  removeBreakpoint(breakpointId: stackdriver.BreakpointId): Promise<void>;
+}
+
+export interface AdapterOptions {
+  pathMapping?: PathMappingOptions;
+  // Maximum number of loaded snapshots whose objects are kept in memory.
+  maxSnapshotCount?: number;
+  // Approximate maximum size of the loaded snapshots, in bytes.
+  maxSnapshotBytes?: number;
+  // Directory to which an archive of every captured snapshot is written.
+  archiveDirectory?: string;
+  // JSON file in which named breakpoint sets are saved across restarts.
+  breakpointSetFile?: string;
+  // Key of the debuggee in that file, e.g. `my-project/default`.
+  debuggeeKey?: string;
+  // ID of the debuggee which the proxy was set up with.
+  debuggeeId?: stackdriver.DebuggeeId;
+  // Reader of the application logs, to which logpoints write their output.
+  logReader?: LogReader;
 }
 
 interface BreakpointInfo {
   name: string;
   id: string;
+  // Description of the error, if the breakpoint failed in Stackdriver.
+  failure?: string;
+  // Snapshots captured by a repeating breakpoint, from the oldest.
+  snapshotIdList?: stackdriver.BreakpointId[];
+  // True for a breakpoint which DevTools did not set, and so cannot show,
+  // e.g. one set from a saved set.
+  adopted?: boolean;
+}
+
+interface DebuggeeInfo {
+  id: stackdriver.DebuggeeId;
+  // Description of the deployment, displayed in the UI.
+  name: string;
+  labels: {[label: string]: string};
+  // True for the debuggee whose breakpoints the proxy is polling.
+  current: boolean;
+}
+
+// A breakpoint which is set again after each snapshot that it captures.
+interface RepeatingBreakpoint {
+  // ID of the first breakpoint, by which DevTools knows the whole series.
+  id: stackdriver.BreakpointId;
+  request: stackdriver.BreakpointRequest;
+  repeatOptions: RepeatOptions;
+  startTime: number;
+  snapshotIdList: stackdriver.BreakpointId[];
+  // ID of the breakpoint which is pending, or null once the series ended.
+  pendingId: stackdriver.BreakpointId|null;
+}
+
+// Outcome of setting one of several breakpoints, which are set all or none.
+interface SetBreakpointResult {
+  breakpoint?: stackdriver.Breakpoint;
+  error?: Error;
+}
+
+// https://cloud.google.com/debugger/api/reference/rest/v2/debugger.debuggees.breakpoints#FormatMessage
+interface FormatMessage {
+  format?: string;
+  parameters?: string[];
 }
 
 // https://chromedevtools.github.io/devtools-protocol/tot/Runtime#type-RemoteObject
@@ -116,6 +280,32 @@ const TYPED_ARRAY_SET = new Set<string>([
   'Float64Array',
 ]);
 
+const DEFAULT_MAX_SNAPSHOT_COUNT = 20;
+const DEFAULT_MAX_SNAPSHOT_BYTES = 64 * 1024 * 1024;
+// Evicted snapshots are remembered to explain why their objects are missing.
+const MAX_EVICTED_SNAPSHOT_COUNT = 100;
+
+// DevTools evaluates the expressions in the Watch pane in this object group.
+const WATCH_OBJECT_GROUP = 'watch-group';
+
+// Requests which do not come from a particular session, e.g. in tests.
+const DEFAULT_SESSION_ID = 0;
+
+// Breakpoint sets are saved under this key if the debuggee is not known.
+const DEFAULT_DEBUGGEE_KEY = 'default';
+
+// Console API types of the output of logpoints by their log levels.
+const LOG_LEVEL_CONSOLE_TYPE_MAP = new Map<string, string>([
+  ['INFO', 'log'],
+  ['WARNING', 'warning'],
+  ['ERROR', 'error'],
+]);
+
+// Previews show as many properties, elements and entries as those of V8.
+const OBJECT_PREVIEW_PROPERTY_LIMIT = 5;
+const ARRAY_PREVIEW_PROPERTY_LIMIT = 100;
+const PREVIEW_ENTRY_LIMIT = 5;
+
 // Add to this list if you are getting flooded with similar messages.
 const STATUS_MESSAGE_SET = new Set<string>(
     ['baseUrl', '_pendingEncoding', 'search', '_trailer', '_url']);
@@ -127,9 +317,10 @@ const STATUS_MESSAGE_SET = new Set<string>(
  * and has a private instance of @google-cloud/debug-proxy-common.
  * https://chromedevtools.github.io/devtools-protocol/
  *
- * @fires 'resume' when DevTools sends a resume request
+ * @fires 'resume' when DevTools resumes, or steps to another snapshot
  * @fires 'loadSnapshot' when users request a snapshot
  * @fires 'updateBreakpointList' when the breakpoint list changes
+ * @fires 'consoleAPICalled' when a message should appear in the console
  */
 export class Adapter extends EventEmitter {
   // TODO: get() does not exist yet, will be resolved in Winston 3.1
@@ -138,9 +329,77 @@ export class Adapter extends EventEmitter {
   private readonly logger = (loggers as any).get('devtools-logger');
   private readonly propertyDescriptorListMap =
       new Map<Runtime.RemoteObjectId, Runtime.PropertyDescriptor[]>();
+  // Internal properties, such as the `[[Entries]]` of maps and sets.
+  private readonly internalPropertyListMap =
+      new Map<Runtime.RemoteObjectId, Runtime.InternalPropertyDescriptor[]>();
+  // Objects given to DevTools in an object group have their own IDs, which
+  // are released with the group, e.g. when a popover closes.
+  private readonly objectAliasMap =
+      new Map<Runtime.RemoteObjectId, Runtime.RemoteObjectId>();
+  private readonly objectGroupMap =
+      new Map<string, Set<Runtime.RemoteObjectId>>();
+  // Approximate sizes of the loaded snapshots, least recently loaded first.
+  // The IDs of all the objects of a snapshot start with its ID.
+  private readonly loadedSnapshotByteCountMap =
+      new Map<stackdriver.BreakpointId, number>();
+  private readonly evictedSnapshotIdSet = new Set<stackdriver.BreakpointId>();
+  private readonly maxSnapshotCount: number;
+  private readonly maxSnapshotBytes: number;
+  private readonly archiveDirectory?: string;
+  private readonly breakpointSetFile?: string;
+  private debuggeeKey: string;
+  private debuggeeId?: stackdriver.DebuggeeId;
+  private readonly logReader?: LogReader;
+  // Snapshots imported from archives, which need not exist in Stackdriver.
+  private readonly importedArchiveMap =
+      new Map<stackdriver.BreakpointId, SnapshotArchive>();
+  // DevTools breakpoints set with `urlRegex` map to several in Stackdriver.
+  private readonly breakpointIdListMap =
+      new Map<Debugger.BreakpointId, stackdriver.BreakpointId[]>();
+  // Pending breakpoints which DevTools did not set, e.g. those from saved
+  // sets, and which are removed from the Snapshot Explorer.
+  private readonly adoptedBreakpointIdSet = new Set<stackdriver.BreakpointId>();
+  private scriptIdList: Runtime.ScriptId[] = [];
+  private readonly sourceMapper: SourceMapper;
+  private readonly pathMapper: PathMapper;
+  // Expressions in the Watch pane of each session, which are captured with
+  // the snapshots of the breakpoints that the session sets.
+  private readonly watchExpressionSetMap =
+      new Map<SessionId, Set<stackdriver.Expression>>();
+  // Sessions which released the watch group, and so evaluate the Watch pane
+  // again: what they evaluate next replaces their watch expressions.
+  private readonly watchRefreshSessionIdSet = new Set<SessionId>();
+  private readonly evaluatedExpressionMap = new Map<
+      Debugger.CallFrameId,
+      Map<stackdriver.Expression, Debugger.EvaluateOnCallFrameReturnType>>();
+  // Call frames of the loaded snapshots, over which expressions are evaluated.
+  private readonly callFrameMap =
+      new Map<Debugger.CallFrameId, Debugger.CallFrame>();
+  // The top call frame of the snapshot which DevTools shows as paused.
+  private pausedCallFrameId?: Debugger.CallFrameId;
+  // The snapshot which DevTools shows as paused, from which stepping moves.
+  private pausedSnapshotId?: stackdriver.BreakpointId;
+  // Breakpoints which reached an error state, such as an invalid condition.
+  private readonly failureMap = new Map<stackdriver.BreakpointId, string>();
+  // Repeating breakpoints by the IDs of all their breakpoints.
+  private readonly repeatingBreakpointMap =
+      new Map<stackdriver.BreakpointId, RepeatingBreakpoint>();
 
-  constructor(private readonly debugProxy: stackdriver.DebugProxy) {
+  constructor(
+      private readonly debugProxy: DebugProxy, options: AdapterOptions = {}) {
     super();
+    this.sourceMapper = new SourceMapper(debugProxy.options.sourceDirectory);
+    this.pathMapper =
+        new PathMapper(debugProxy.options.sourceDirectory, options.pathMapping);
+    this.maxSnapshotCount =
+        options.maxSnapshotCount || DEFAULT_MAX_SNAPSHOT_COUNT;
+    this.maxSnapshotBytes =
+        options.maxSnapshotBytes || DEFAULT_MAX_SNAPSHOT_BYTES;
+    this.archiveDirectory = options.archiveDirectory;
+    this.breakpointSetFile = options.breakpointSetFile;
+    this.debuggeeKey = options.debuggeeKey || DEFAULT_DEBUGGEE_KEY;
+    this.debuggeeId = options.debuggeeId;
+    this.logReader = options.logReader;
     this.logger.verbose(
         {origin: 'adapter-init', message: 'Adapter successfully initialized.'});
     this.debugProxy.on('breakpointHit', () => {
@@ -157,20 +416,1034 @@ export class Adapter extends EventEmitter {
     return line + 1;
   }
 
-  private stackdriverToDevToolsLine(line: stackdriver.OneIndexedLineNumber):
-      ZeroIndexedLineNumber {
-    if (line < 1) {
-      throw new Error(`Given Stackdriver line number ${line} is not possible.`);
+  private stackdriverToDevToolsLine(line: stackdriver.OneIndexedLineNumber):
+      ZeroIndexedLineNumber {
+    if (line < 1) {
+      throw new Error(`Given Stackdriver line number ${line} is not possible.`);
+    }
+    return line - 1;
+  }
+
+  /*
+   * @returns negative if `a` is before `b`, positive if after, else zero
+   */
+  private compareLocations(a: Debugger.Location, b: Debugger.Location): number {
+    return a.lineNumber - b.lineNumber ||
+        (a.columnNumber || 0) - (b.columnNumber || 0);
+  }
+
+  /*
+   * Translates a DevTools location to where the deployed code runs, through
+   * the source maps if it is in an original source, such as a .ts file,
+   * and then to the deployed path through the path mapping rules.
+   *
+   * @param scriptId - absolute path to the file, from parse-scripts.ts
+   * @param line - line number in Chrome DevTools
+   * @returns location in Stackdriver Debug
+   */
+  private async devToolsToStackdriverLocation(
+      scriptId: Runtime.ScriptId,
+      line: ZeroIndexedLineNumber): Promise<stackdriver.SourceLocation> {
+    const original = {
+      path: scriptId,
+      line: this.devToolsToStackdriverLine(line)
+    };
+    const generated =
+        await this.sourceMapper.originalToGenerated(original) || original;
+    return {
+      path: this.pathMapper.toRemote(generated.path),
+      line: generated.line,
+    };
+  }
+
+  /*
+   * Translates a location in the deployed code to a DevTools location,
+   * through the path mapping rules to the local file, and then through
+   * the source maps if the deployed code was generated.
+   *
+   * @param location - location in Stackdriver Debug
+   * @returns location in Chrome DevTools
+   */
+  private async stackdriverToDevToolsLocation(
+      location: stackdriver.SourceLocation): Promise<Debugger.Location> {
+    const generated = {
+      path: this.pathMapper.toLocal(location.path, this.scriptIdList),
+      line: location.line,
+    };
+    const original =
+        await this.sourceMapper.generatedToOriginal(generated) || generated;
+    return {
+      scriptId: original.path,
+      lineNumber: this.stackdriverToDevToolsLine(original.line),
+      columnNumber: 0,
+    };
+  }
+
+  private breakpointToBreakpointInfo(breakpoint: stackdriver.Breakpoint):
+      BreakpointInfo {
+    const breakpointInfo: BreakpointInfo = {
+      name: `${breakpoint.location.path}:${breakpoint.location.line}`,
+      id: breakpoint.id,
+    };
+    const failure = this.failureMap.get(breakpoint.id);
+    if (failure !== undefined) {
+      breakpointInfo.failure = failure;
+    }
+    if (this.adoptedBreakpointIdSet.has(breakpoint.id)) {
+      breakpointInfo.adopted = true;
+    }
+    const repeatingBreakpoint = this.repeatingBreakpointMap.get(breakpoint.id);
+    if (repeatingBreakpoint) {
+      const snapshotCount = repeatingBreakpoint.snapshotIdList.length;
+      breakpointInfo.name += ` (${snapshotCount} ` +
+          `${snapshotCount === 1 ? 'snapshot' : 'snapshots'})`;
+      breakpointInfo.snapshotIdList = repeatingBreakpoint.snapshotIdList;
+    }
+    return breakpointInfo;
+  }
+
+  /*
+   * @param breakpointId - ID of a breakpoint in Stackdriver Debug
+   * @returns IDs of all the breakpoints of its series if it is repeating,
+   * or else its own ID
+   */
+  private getRepeatingBreakpointIdList(breakpointId: stackdriver.BreakpointId):
+      stackdriver.BreakpointId[] {
+    const repeatingBreakpoint = this.repeatingBreakpointMap.get(breakpointId);
+    if (!repeatingBreakpoint) {
+      return [breakpointId];
+    }
+    return repeatingBreakpoint.pendingId ?
+        [...repeatingBreakpoint.snapshotIdList, repeatingBreakpoint.pendingId] :
+        repeatingBreakpoint.snapshotIdList;
+  }
+
+  /*
+   * @param breakpointId - ID of a pending breakpoint
+   * @param request - request with which the breakpoint was set
+   * @param repeatOptions - how long to keep setting the breakpoint again
+   */
+  private addRepeatingBreakpoint(
+      breakpointId: stackdriver.BreakpointId,
+      request: stackdriver.BreakpointRequest, repeatOptions: RepeatOptions) {
+    this.repeatingBreakpointMap.set(breakpointId, {
+      id: breakpointId,
+      request,
+      repeatOptions,
+      startTime: Date.now(),
+      snapshotIdList: [],
+      pendingId: breakpointId,
+    });
+  }
+
+  /*
+   * Sets a repeating breakpoint again after its pending breakpoint reached
+   * its final state, unless it captured enough snapshots or failed. If it
+   * cannot be set again, the failure is reported on its latest snapshot.
+   *
+   * @param breakpointId - ID of the breakpoint which reached its final state
+   * @param captured - true if it captured a snapshot, false if it failed
+   * @returns true if the breakpoint belonged to a repeating breakpoint
+   */
+  private async repeatBreakpointAfterHit(
+      breakpointId: stackdriver.BreakpointId,
+      captured: boolean): Promise<boolean> {
+    const repeatingBreakpoint = this.repeatingBreakpointMap.get(breakpointId);
+    if (!repeatingBreakpoint ||
+        repeatingBreakpoint.pendingId !== breakpointId) {
+      return false;
+    }
+    // Whether the series ends is decided before any of its state changes.
+    const maxHitCount = repeatingBreakpoint.repeatOptions.maxHitCount;
+    const ended = this.hasRepeatWindowPassed(repeatingBreakpoint) ||
+        (maxHitCount !== undefined &&
+         repeatingBreakpoint.snapshotIdList.length + 1 >= maxHitCount);
+    repeatingBreakpoint.pendingId = null;
+    if (!captured) {
+      return true;
+    }
+    repeatingBreakpoint.snapshotIdList.push(breakpointId);
+    if (ended) {
+      this.endRepeatingBreakpoint(repeatingBreakpoint);
+      return true;
+    }
+    let breakpoint: stackdriver.Breakpoint;
+    try {
+      breakpoint =
+          await this.debugProxy.setBreakpoint(repeatingBreakpoint.request);
+    } catch (error) {
+      const failure = `Failed to set the breakpoint again: ${error.message}`;
+      this.failureMap.set(breakpointId, failure);
+      this.endRepeatingBreakpoint(repeatingBreakpoint, failure);
+      return true;
+    }
+    repeatingBreakpoint.pendingId = breakpoint.id;
+    this.repeatingBreakpointMap.set(breakpoint.id, repeatingBreakpoint);
+    return true;
+  }
+
+  /*
+   * @param repeatingBreakpoint - breakpoint which is set again after hits
+   * @returns true if its time window has passed
+   */
+  private hasRepeatWindowPassed(repeatingBreakpoint: RepeatingBreakpoint):
+      boolean {
+    const windowMs = repeatingBreakpoint.repeatOptions.windowMs;
+    return windowMs !== undefined &&
+        Date.now() - repeatingBreakpoint.startTime >= windowMs;
+  }
+
+  /*
+   * Stops setting the pending breakpoints of repeating breakpoints whose
+   * time windows have passed.
+   *
+   * @returns true if any repeating breakpoint ended
+   */
+  private async expireRepeatingBreakpoints(): Promise<boolean> {
+    const expiredList: RepeatingBreakpoint[] = [];
+    this.repeatingBreakpointMap.forEach(
+        (repeatingBreakpoint: RepeatingBreakpoint,
+         breakpointId: stackdriver.BreakpointId) => {
+          if (breakpointId === repeatingBreakpoint.pendingId &&
+              this.hasRepeatWindowPassed(repeatingBreakpoint)) {
+            expiredList.push(repeatingBreakpoint);
+          }
+        });
+    await Promise.all(
+        expiredList.map(async (repeatingBreakpoint: RepeatingBreakpoint) => {
+          const pendingId = repeatingBreakpoint.pendingId!;
+          repeatingBreakpoint.pendingId = null;
+          this.repeatingBreakpointMap.delete(pendingId);
+          await this.debugProxy.removeBreakpoint(pendingId);
+          this.endRepeatingBreakpoint(repeatingBreakpoint);
+        }));
+    return expiredList.length > 0;
+  }
+
+  /*
+   * @param repeatingBreakpoint - breakpoint which is no longer set again
+   * @param failure - why it could not be set again, if it ended early
+   */
+  private endRepeatingBreakpoint(
+      repeatingBreakpoint: RepeatingBreakpoint, failure?: string) {
+    const location = repeatingBreakpoint.request.location;
+    const snapshotCount = repeatingBreakpoint.snapshotIdList.length;
+    const message =
+        `The repeating breakpoint at ${location.path}:${location.line} ` +
+        `captured ${snapshotCount} ` +
+        `${snapshotCount === 1 ? 'snapshot' : 'snapshots'}` +
+        (failure ? `, and then stopped. ${failure}` : '.');
+    if (failure) {
+      this.logger.error({origin: 'adapter-repeat', message});
+      this.emitConsoleMessage('error', message, location);
+    } else {
+      this.logger.info({origin: 'adapter-repeat', message});
+      this.emitConsoleMessage('info', message, location);
+    }
+  }
+
+  /*
+   * @returns snapshots captured through this adapter and imported snapshots,
+   * from the first captured, or else in the order in which they were listed
+   */
+  private getCapturedSnapshotList(): stackdriver.Breakpoint[] {
+    const capturedSnapshotList: stackdriver.Breakpoint[] =
+        this.debugProxy.getBreakpointList(true);
+    this.importedArchiveMap.forEach((archive: SnapshotArchive) => {
+      if (!capturedSnapshotList.some(
+              (snapshot: stackdriver.Breakpoint) =>
+                  snapshot.id === archive.snapshot.id)) {
+        capturedSnapshotList.push(archive.snapshot);
+      }
+    });
+    const getCaptureTime = (snapshot: stackdriver.Breakpoint) =>
+        Date.parse(snapshot.finalTime || '') || Infinity;
+    return capturedSnapshotList
+        .map((snapshot: stackdriver.Breakpoint, index: number) => ({
+               snapshot,
+               index,
+               time: getCaptureTime(snapshot),
+             }))
+        .sort(
+            (a, b) => a.time === b.time ? a.index - b.index :
+                                          a.time < b.time ? -1 : 1)
+        .map(({snapshot}) => snapshot);
+  }
+
+  /*
+   * Finds the snapshot to which stepping moves, going forward in time
+   * through the captured snapshots instead of through the code.
+   *
+   * @param debuggerMethod - `stepOver` to move to the next snapshot of the
+   * same breakpoint, `stepOut` to the next one of another breakpoint,
+   * `continueToLocation` to the next one at the requested location, and
+   * `stepInto` to the next one of any breakpoint
+   * @param request - stepping request from Chrome DevTools
+   * @returns ID of the next snapshot, if any was captured after the paused one
+   */
+  private async findNextSnapshotId(
+      debuggerMethod: DebuggerMethod,
+      request: MessageRequest): Promise<stackdriver.BreakpointId|undefined> {
+    const pausedSnapshotId = this.pausedSnapshotId;
+    if (!pausedSnapshotId) {
+      throw new ProtocolError(
+          ErrorCode.SERVER_ERROR,
+          'Can only step while a snapshot is shown as paused.');
+    }
+    const snapshotList = this.getCapturedSnapshotList();
+    const pausedIndex = snapshotList.findIndex(
+        (snapshot: stackdriver.Breakpoint) => snapshot.id === pausedSnapshotId);
+    if (pausedIndex === -1) {
+      return undefined;
+    }
+    const pausedLocation = snapshotList[pausedIndex].location;
+    const laterSnapshotList = snapshotList.slice(pausedIndex + 1);
+    const isAtPausedLocation = (snapshot: stackdriver.Breakpoint) =>
+        snapshot.location.path === pausedLocation.path &&
+        snapshot.location.line === pausedLocation.line;
+    let nextSnapshot: stackdriver.Breakpoint|undefined;
+    if (debuggerMethod === 'stepOver') {
+      // The snapshots of a repeating breakpoint are already in order.
+      const repeatingBreakpoint =
+          this.repeatingBreakpointMap.get(pausedSnapshotId);
+      if (repeatingBreakpoint) {
+        const snapshotIdList = repeatingBreakpoint.snapshotIdList;
+        return snapshotIdList[snapshotIdList.indexOf(pausedSnapshotId) + 1];
+      }
+      nextSnapshot = laterSnapshotList.find(isAtPausedLocation);
+    } else if (debuggerMethod === 'stepOut') {
+      nextSnapshot = laterSnapshotList.find(
+          (snapshot: stackdriver.Breakpoint) => !isAtPausedLocation(snapshot));
+    } else if (debuggerMethod === 'continueToLocation') {
+      const {location} =
+          this.getParams<Debugger.ContinueToLocationParameterType>(request);
+      for (const snapshot of laterSnapshotList) {
+        const snapshotLocation =
+            await this.stackdriverToDevToolsLocation(snapshot.location);
+        if (snapshotLocation.scriptId === location.scriptId &&
+            snapshotLocation.lineNumber === location.lineNumber) {
+          nextSnapshot = snapshot;
+          break;
+        }
+      }
+    } else {
+      nextSnapshot = laterSnapshotList[0];
+    }
+    return nextSnapshot && nextSnapshot.id;
+  }
+
+  /*
+   * Forgets the objects of all loaded snapshots and the breakpoints of the
+   * previous debuggee, keeping only the imported snapshots.
+   */
+  private resetDebuggeeState() {
+    this.propertyDescriptorListMap.clear();
+    this.internalPropertyListMap.clear();
+    this.objectAliasMap.clear();
+    this.objectGroupMap.clear();
+    this.loadedSnapshotByteCountMap.clear();
+    this.evictedSnapshotIdSet.clear();
+    this.evaluatedExpressionMap.clear();
+    this.callFrameMap.clear();
+    this.pausedCallFrameId = undefined;
+    this.pausedSnapshotId = undefined;
+    this.breakpointIdListMap.clear();
+    this.adoptedBreakpointIdSet.clear();
+    this.failureMap.clear();
+    this.repeatingBreakpointMap.clear();
+  }
+
+  /*
+   * @returns file in which breakpoint sets are saved
+   * @throws if the adapter has no such file
+   */
+  private getBreakpointSetFile(): string {
+    if (!this.breakpointSetFile) {
+      throw new Error(
+          'Breakpoint sets cannot be saved nor set without a state file.');
+    }
+    return this.breakpointSetFile;
+  }
+
+  /*
+   * @param snapshotId - ID of an imported snapshot, or of a snapshot set by
+   * this adapter
+   * @returns the snapshot from its archive, or else from Stackdriver Debug
+   */
+  private async getSnapshot(snapshotId: stackdriver.BreakpointId):
+      Promise<stackdriver.Breakpoint> {
+    const archive = this.importedArchiveMap.get(snapshotId);
+    return archive ? archive.snapshot :
+                     await this.debugProxy.getBreakpoint(snapshotId);
+  }
+
+  /*
+   * Writes an archive of a captured snapshot to the archive directory,
+   * logging rather than throwing errors since no request waits for it.
+   *
+   * @param snapshotId - ID of the captured snapshot
+   */
+  private async archiveSnapshot(snapshotId: stackdriver.BreakpointId) {
+    const archiveFile =
+        path.join(this.archiveDirectory || '', `${snapshotId}.json`);
+    try {
+      await writeSnapshotArchive(
+          archiveFile, await this.exportSnapshot(snapshotId));
+      this.logger.info({
+        origin: 'adapter-archive',
+        message: `Wrote the snapshot ${snapshotId} to ${archiveFile}.`,
+      });
+    } catch (error) {
+      this.logger.error({
+        origin: 'adapter-archive',
+        message: `Failed to write the snapshot ${snapshotId} to ` +
+            `${archiveFile}: ${error.stack}`,
+      });
+    }
+  }
+
+  /*
+   * Reports the final state of a breakpoint which is no longer pending
+   * to the console, since Stackdriver Debug does not keep failed
+   * breakpoints pending, e.g. if its line or condition is invalid.
+   *
+   * @param breakpoint - breakpoint which reached its final state
+   * @returns true if the breakpoint failed
+   */
+  private reportFinalState(breakpoint: stackdriver.Breakpoint): boolean {
+    const breakpointId = breakpoint.id;
+    const name = `${breakpoint.location.path}:${breakpoint.location.line}`;
+    const status = breakpoint.status;
+    if (!status || !status.isError) {
+      // Captured snapshots are listed in the extension instead.
+      return false;
+    }
+    const description =
+        status.description ? this.formatMessage(status.description) : '';
+    // Stackdriver Debug reports expiry as an error of the breakpoint age.
+    const state = status.refersTo === 'BREAKPOINT_AGE' ? 'expired' : 'failed';
+    this.failureMap.set(breakpointId, description);
+    this.logger.info({
+      origin: 'adapter-failure',
+      message: `Breakpoint ${breakpointId} at ${name} ${state}: ${description}`,
+    });
+    this.emitConsoleMessage(
+        'error', `Breakpoint at ${name} ${state}: ${description}`,
+        breakpoint.location);
+    return true;
+  }
+
+  /*
+   * Sets a breakpoint in Stackdriver Debug, which is a logpoint
+   * if the given condition is one, and a snapshot otherwise.
+   *
+   * @param scriptId - absolute path to the file, from parse-scripts.ts
+   * @param line - line number of the breakpoint in Chrome DevTools
+   * @param condition - condition of the breakpoint in Chrome DevTools
+   * @param sessionId - session whose watch expressions a snapshot captures
+   * @returns breakpoint which was successfully set
+   */
+  private async setStackdriverBreakpoint(
+      scriptId: Runtime.ScriptId, line: ZeroIndexedLineNumber,
+      condition: string|undefined,
+      sessionId: SessionId): Promise<stackdriver.Breakpoint> {
+    const logpoint = parseLogpoint(condition);
+    const location = await this.devToolsToStackdriverLocation(
+        scriptId, await this.getBreakableLine(scriptId, line));
+    if (!logpoint) {
+      let repeatCondition;
+      try {
+        repeatCondition = parseRepeatCondition(condition);
+      } catch (error) {
+        throw new ProtocolError(ErrorCode.INVALID_PARAMS, error.message);
+      }
+      const watchExpressionSet = this.watchExpressionSetMap.get(sessionId);
+      const request: stackdriver.BreakpointRequest = {
+        action: stackdriver.Action.CAPTURE,
+        location,
+        condition: repeatCondition ? repeatCondition.condition : condition,
+        expressions: watchExpressionSet && watchExpressionSet.size > 0 ?
+            Array.from(watchExpressionSet) :
+            undefined,
+      };
+      const capturingBreakpoint = await this.debugProxy.setBreakpoint(request);
+      if (repeatCondition) {
+        this.addRepeatingBreakpoint(
+            capturingBreakpoint.id, request, repeatCondition.repeatOptions);
+      }
+      return capturingBreakpoint;
+    }
+    // The output is relayed from the application log by
+    // `relayLogpointOutput`.
+    return this.debugProxy.setBreakpoint({
+      action: stackdriver.Action.LOG,
+      location,
+      logMessageFormat: logpoint.logMessageFormat,
+      expressions: logpoint.expressions,
+      logLevel: logpoint.logLevel,
+    });
+  }
+
+  /*
+   * Remembers an expression which a session evaluates for its Watch pane.
+   *
+   * @param sessionId - session which evaluated the expression
+   * @param expression - expression in the Watch pane
+   */
+  private addWatchExpression(
+      sessionId: SessionId, expression: stackdriver.Expression) {
+    let watchExpressionSet = this.watchExpressionSetMap.get(sessionId);
+    if (!watchExpressionSet ||
+        this.watchRefreshSessionIdSet.delete(sessionId)) {
+      // Expressions which DevTools no longer evaluates were removed.
+      watchExpressionSet = new Set();
+      this.watchExpressionSetMap.set(sessionId, watchExpressionSet);
+    }
+    watchExpressionSet.add(expression);
+  }
+
+  /*
+   * Sets several breakpoints at once, all or none of them: if any of them
+   * fails, those which were already set are removed again.
+   *
+   * @param setterList - functions which each set one breakpoint
+   * @returns breakpoints which were set, in the order of the functions
+   * @throws the first error, once the other breakpoints were removed
+   */
+  private async setAllBreakpoints(
+      setterList: Array<() => Promise<stackdriver.Breakpoint>>):
+      Promise<stackdriver.Breakpoint[]> {
+    const resultList = await Promise.all(setterList.map(
+        async(setBreakpoint: () => Promise<stackdriver.Breakpoint>):
+            Promise<SetBreakpointResult> => {
+              try {
+                return {breakpoint: await setBreakpoint()};
+              } catch (error) {
+                return {error};
+              }
+            }));
+    const breakpointList: stackdriver.Breakpoint[] = [];
+    let firstError: Error|undefined;
+    for (const {breakpoint, error} of resultList) {
+      if (breakpoint) {
+        breakpointList.push(breakpoint);
+      } else if (!firstError) {
+        firstError = error;
+      }
+    }
+    if (!firstError) {
+      return breakpointList;
+    }
+    await Promise.all(
+        breakpointList.map(async (breakpoint: stackdriver.Breakpoint) => {
+          this.repeatingBreakpointMap.delete(breakpoint.id);
+          try {
+            await this.debugProxy.removeBreakpoint(breakpoint.id);
+          } catch (error) {
+            this.logger.error({
+              origin: 'adapter-rollback',
+              message: `Failed to remove the breakpoint ${breakpoint.id} ` +
+                  `after another one failed: ${error.stack}`,
+            });
+          }
+        }));
+    throw firstError;
+  }
+
+  /*
+   * Moves the given line to the first line with a statement at or after it,
+   * so that breakpoints are not set on blank lines nor comments.
+   *
+   * @param scriptId - absolute path to the file, from parse-scripts.ts
+   * @param line - line number of the breakpoint in Chrome DevTools
+   * @returns the first breakable line, or the given line if there is none
+   */
+  private async getBreakableLine(
+      scriptId: Runtime.ScriptId,
+      line: ZeroIndexedLineNumber): Promise<ZeroIndexedLineNumber> {
+    let breakLocationList: Debugger.BreakLocation[];
+    try {
+      breakLocationList = await parseStatements(scriptId);
+    } catch (error) {
+      this.logger.verbose({
+        origin: 'adapter-parse',
+        message: `Could not parse the statements in ${scriptId}: ${error}`,
+      });
+      return line;
+    }
+    const breakLocation = breakLocationList.find(
+        (location: Debugger.BreakLocation) => location.lineNumber >= line);
+    return breakLocation ? breakLocation.lineNumber : line;
+  }
+
+  /*
+   * @param text - description of the exception
+   * @returns result of an evaluation that threw the described exception
+   */
+  private createExceptionResult(text: string):
+      Debugger.EvaluateOnCallFrameReturnType {
+    const exception: Runtime.RemoteObject = {
+      type: 'object',
+      subtype: 'error',
+      className: 'EvalError',
+      description: `EvalError: ${text}`,
+    };
+    return {
+      result: exception,
+      exceptionDetails: {
+        exceptionId: 0,
+        text,
+        lineNumber: 0,
+        columnNumber: 0,
+        exception,
+      },
+    };
+  }
+
+  /*
+   * @param message - message from Stackdriver Debug with `$N` placeholders
+   * @returns message with its placeholders replaced by their parameters
+   */
+  private formatMessage(message: FormatMessage): string {
+    const parameters = message.parameters || [];
+    return (message.format || '')
+        .replace(
+            /\$(\$|\d+)/g,
+            (match: string, index: string) =>
+                index === '$' ? '$' : parameters[Number(index)] || '');
+  }
+
+  /*
+   * @param remoteObject - value of a property
+   * @returns text which DevTools shows for the value, e.g. in a preview
+   */
+  private describeRemoteObject(remoteObject: Runtime.RemoteObject): string {
+    if (remoteObject.description !== undefined) {
+      return remoteObject.description;
+    }
+    return remoteObject.type === 'string' ? JSON.stringify(remoteObject.value) :
+                                            String(remoteObject.value);
+  }
+
+  /*
+   * Stores the entries of a map or a set, which DevTools requests
+   * through its internal `[[Entries]]` property, as for live objects.
+   *
+   * @param objectId - ID of the map or the set
+   * @param subtype - either `map` or `set`
+   * @param propertyList - captured members of the map or the set, which are
+   * named by their keys
+   */
+  private setEntries(
+      objectId: Runtime.RemoteObjectId, subtype: string,
+      propertyList: Runtime.PropertyDescriptor[]) {
+    const entriesObjectId = `${objectId}-entries`;
+    const entryList = propertyList.map(
+        (property: Runtime.PropertyDescriptor,
+         index: number): Runtime.PropertyDescriptor => {
+          const entryObjectId = `${objectId}-entry-${index}`;
+          const value = property.value || {type: 'undefined'};
+          const entryPropertyList: Runtime.PropertyDescriptor[] = [];
+          let description = this.describeRemoteObject(value);
+          if (subtype === 'map') {
+            entryPropertyList.push({
+              name: 'key',
+              configurable: false,
+              enumerable: true,
+              value: {type: 'string', value: property.name},
+            });
+            description =
+                `{${JSON.stringify(property.name)} => ${description}}`;
+          }
+          entryPropertyList.push(
+              {name: 'value', configurable: false, enumerable: true, value});
+          this.propertyDescriptorListMap.set(entryObjectId, entryPropertyList);
+          return {
+            name: String(index),
+            configurable: false,
+            enumerable: true,
+            value: {
+              type: 'object',
+              subtype: 'internal#entry',
+              className: 'Object',
+              description,
+              objectId: entryObjectId,
+            },
+          };
+        });
+    const lengthPropertyDescriptor: Runtime.PropertyDescriptor = {
+      name: 'length',
+      configurable: false,
+      enumerable: false,
+      value: {
+        type: 'number',
+        description: String(entryList.length),
+        value: entryList.length,
+      },
+    };
+    this.propertyDescriptorListMap.set(
+        entriesObjectId, [...entryList, lengthPropertyDescriptor]);
+    const entriesRemoteObject: Runtime.RemoteObject = {
+      type: 'object',
+      subtype: 'array',
+      className: 'Array',
+      description: `Array(${entryList.length})`,
+      objectId: entriesObjectId,
+    };
+    this.internalPropertyListMap.set(
+        objectId, [{name: '[[Entries]]', value: entriesRemoteObject}]);
+  }
+
+  /*
+   * @param property - captured property of an object
+   * @returns preview of the property, without any nested preview
+   */
+  private createPropertyPreview(property: Runtime.PropertyDescriptor):
+      Runtime.PropertyPreview {
+    if (!property.value) {
+      return {name: property.name, type: 'accessor'};
+    }
+    const propertyPreview: Runtime.PropertyPreview = {
+      name: property.name,
+      type: property.value.type,
+    };
+    if (property.value.subtype) {
+      propertyPreview.subtype = property.value.subtype;
+    }
+    switch (property.value.type) {
+      case 'function':
+        propertyPreview.value = '';
+        break;
+      case 'string':
+        propertyPreview.value = property.value.value;
+        break;
+      default:
+        propertyPreview.value = this.describeRemoteObject(property.value);
+    }
+    return propertyPreview;
+  }
+
+  /*
+   * Previews a value from the captured properties and entries, which
+   * DevTools shows inline, e.g. `{id: 42, name: "x"}` instead of `Object`.
+   *
+   * @param remoteObject - value from a loaded snapshot
+   * @param withEntries - false to skip the entries of maps and sets, which
+   * is the case for values inside entries
+   * @returns preview of the value
+   */
+  private createObjectPreview(
+      remoteObject: Runtime.RemoteObject,
+      withEntries = true): Runtime.ObjectPreview {
+    const preview: Runtime.ObjectPreview = {
+      type: remoteObject.type,
+      // Previews of strings, such as the keys of maps, are not quoted.
+      description: remoteObject.type === 'string' ?
+          remoteObject.value :
+          this.describeRemoteObject(remoteObject),
+      overflow: false,
+      properties: [],
+    };
+    if (remoteObject.subtype) {
+      preview.subtype = remoteObject.subtype;
+    }
+    if (!remoteObject.objectId) {
+      return preview;
+    }
+    const isIndexed = remoteObject.subtype === 'array' ||
+        remoteObject.subtype === 'typedarray';
+    const propertyLimit = isIndexed ? ARRAY_PREVIEW_PROPERTY_LIMIT :
+                                      OBJECT_PREVIEW_PROPERTY_LIMIT;
+    const propertyList =
+        (this.propertyDescriptorListMap.get(remoteObject.objectId) || [])
+            .filter(
+                (property: Runtime.PropertyDescriptor) =>
+                    !(isIndexed && property.name === 'length'));
+    preview.properties = propertyList.slice(0, propertyLimit)
+                             .map(this.createPropertyPreview, this);
+    preview.overflow = propertyList.length > propertyLimit;
+    const internalPropertyList =
+        this.internalPropertyListMap.get(remoteObject.objectId);
+    const entriesProperty = internalPropertyList &&
+        internalPropertyList.find(
+            (property: Runtime.InternalPropertyDescriptor) =>
+                property.name === '[[Entries]]');
+    if (!withEntries || !entriesProperty || !entriesProperty.value ||
+        !entriesProperty.value.objectId) {
+      return preview;
+    }
+    const entryList =
+        (this.propertyDescriptorListMap.get(entriesProperty.value.objectId) ||
+         [])
+            .filter(
+                (entry: Runtime.PropertyDescriptor) => entry.name !== 'length');
+    preview.entries = entryList.slice(0, PREVIEW_ENTRY_LIMIT)
+                          .map(this.createEntryPreview, this);
+    preview.overflow =
+        preview.overflow || entryList.length > PREVIEW_ENTRY_LIMIT;
+    return preview;
+  }
+
+  /*
+   * @param entry - entry of a map or a set, from `setEntries`
+   * @returns preview of the key and the value of the entry
+   */
+  private createEntryPreview(entry: Runtime.PropertyDescriptor):
+      Runtime.EntryPreview {
+    const entryPropertyList =
+        this.propertyDescriptorListMap.get(entry.value!.objectId!) || [];
+    const entryPreview: Runtime.EntryPreview = {
+      value: {type: 'undefined', overflow: false, properties: []},
+    };
+    for (const property of entryPropertyList) {
+      if (property.value &&
+          (property.name === 'key' || property.name === 'value')) {
+        entryPreview[property.name] =
+            this.createObjectPreview(property.value, false);
+      }
+    }
+    return entryPreview;
+  }
+
+  /*
+   * @param remoteObject - value from a loaded snapshot
+   * @returns the value with a preview, if it is an object
+   */
+  private addPreview(remoteObject: Runtime.RemoteObject): Runtime.RemoteObject {
+    if (remoteObject.type !== 'object' || !remoteObject.objectId) {
+      return remoteObject;
+    }
+    return {...remoteObject, preview: this.createObjectPreview(remoteObject)};
+  }
+
+  /*
+   * @param callFrameId - ID of a call frame in a loaded snapshot
+   * @returns the scopes and the objects of the call frame, or only the objects
+   * of the snapshots if the call frame is unknown
+   */
+  private createEvaluationContext(callFrameId?: Debugger.CallFrameId):
+      EvaluationContext {
+    const callFrame = callFrameId === undefined ?
+        undefined :
+        this.callFrameMap.get(callFrameId);
+    return {
+      scopeObjectList: callFrame ?
+          callFrame.scopeChain.map((scope: Debugger.Scope) => scope.object) :
+          [],
+      thisObject: callFrame ? callFrame.this : {type: 'undefined'},
+      getProperties: (objectId: Runtime.RemoteObjectId) =>
+          this.propertyDescriptorListMap.get(this.resolveObjectId(objectId)),
+    };
+  }
+
+  /*
+   * @param evaluate - evaluates an expression over a loaded snapshot
+   * @param generatePreview - true to preview the resulting object
+   * @param objectGroup - group in which DevTools later releases the result
+   * @returns result of the evaluation, or the reason that it failed
+   */
+  private createEvaluationResult(
+      evaluate: () => Runtime.RemoteObject, generatePreview?: boolean,
+      objectGroup?: string): Debugger.EvaluateOnCallFrameReturnType {
+    let result: Runtime.RemoteObject;
+    try {
+      result = evaluate();
+    } catch (error) {
+      if (error instanceof EvaluationError) {
+        return this.createExceptionResult(error.message);
+      }
+      throw error;
+    }
+    if (generatePreview) {
+      result = this.addPreview(result);
+    }
+    if (objectGroup && result.objectId) {
+      result = {
+        ...result,
+        objectId: this.createObjectAlias(result.objectId, objectGroup),
+      };
+    }
+    return {result};
+  }
+
+  /*
+   * @param objectId - ID of an object in a loaded snapshot
+   * @param objectGroup - group in which DevTools later releases the object
+   * @returns ID of the object in the group
+   */
+  private createObjectAlias(
+      objectId: Runtime.RemoteObjectId,
+      objectGroup: string): Runtime.RemoteObjectId {
+    // The alias starts with the ID of the object, and so of its snapshot.
+    const aliasId = `${objectId}-${objectGroup}`;
+    this.objectAliasMap.set(aliasId, objectId);
+    let aliasIdSet = this.objectGroupMap.get(objectGroup);
+    if (!aliasIdSet) {
+      aliasIdSet = new Set();
+      this.objectGroupMap.set(objectGroup, aliasIdSet);
+    }
+    aliasIdSet.add(aliasId);
+    return aliasId;
+  }
+
+  /*
+   * @param objectId - ID of an object, or of one of its aliases
+   * @returns ID of the object in its snapshot
+   */
+  private resolveObjectId(objectId: Runtime.RemoteObjectId):
+      Runtime.RemoteObjectId {
+    return this.objectAliasMap.get(objectId) || objectId;
+  }
+
+  /*
+   * @param objectId - ID of an object which is no longer stored
+   * @returns error explaining why the object is unavailable
+   */
+  private createMissingObjectError(objectId: Runtime.RemoteObjectId):
+      ProtocolError {
+    const snapshotId = this.getSnapshotId(objectId);
+    if (snapshotId && this.evictedSnapshotIdSet.has(snapshotId)) {
+      return new ProtocolError(
+          ErrorCode.INVALID_PARAMS,
+          `The remote object with ID ${objectId} belongs to the snapshot ` +
+              `${snapshotId}, which was evicted from memory to stay within ` +
+              'the snapshot budget. Load the snapshot again to inspect it.');
+    }
+    return new ProtocolError(
+        ErrorCode.INVALID_PARAMS,
+        `The remote object with ID ${objectId} does not exist in the ` +
+            'internal object property map, or it was released.');
+  }
+
+  /*
+   * @param id - ID of an object or a call frame of a snapshot
+   * @returns ID of the loaded or evicted snapshot which the ID belongs to
+   */
+  private getSnapshotId(id: string): stackdriver.BreakpointId|undefined {
+    let ownerSnapshotId: stackdriver.BreakpointId|undefined;
+    const snapshotIdList = [
+      ...Array.from(this.loadedSnapshotByteCountMap.keys()),
+      ...Array.from(this.evictedSnapshotIdSet),
+    ];
+    for (const snapshotId of snapshotIdList) {
+      // The ID of a snapshot may start with the ID of another one.
+      if (id.startsWith(`${snapshotId}-`) &&
+          (!ownerSnapshotId || snapshotId.length > ownerSnapshotId.length)) {
+        ownerSnapshotId = snapshotId;
+      }
+    }
+    return ownerSnapshotId;
+  }
+
+  /*
+   * Forgets all the objects and call frames of a loaded snapshot.
+   *
+   * @param snapshotId - ID of the snapshot
+   */
+  private releaseSnapshot(snapshotId: stackdriver.BreakpointId) {
+    const isOwned = (id: string) => this.getSnapshotId(id) === snapshotId;
+    const idMapList: Array<Map<string, {}>> = [
+      this.propertyDescriptorListMap,
+      this.internalPropertyListMap,
+      this.objectAliasMap,
+      this.evaluatedExpressionMap,
+      this.callFrameMap,
+    ];
+    for (const idMap of idMapList) {
+      for (const id of Array.from(idMap.keys())) {
+        if (isOwned(id)) {
+          idMap.delete(id);
+        }
+      }
+    }
+    this.objectGroupMap.forEach((aliasIdSet: Set<Runtime.RemoteObjectId>) => {
+      for (const aliasId of Array.from(aliasIdSet)) {
+        if (isOwned(aliasId)) {
+          aliasIdSet.delete(aliasId);
+        }
+      }
+    });
+    if (this.pausedCallFrameId && isOwned(this.pausedCallFrameId)) {
+      this.pausedCallFrameId = undefined;
+    }
+    if (this.pausedSnapshotId === snapshotId) {
+      this.pausedSnapshotId = undefined;
+    }
+    this.loadedSnapshotByteCountMap.delete(snapshotId);
+  }
+
+  /*
+   * Records a newly loaded snapshot, and evicts the least recently loaded
+   * snapshots while the loaded ones exceed the budget. The size of a snapshot
+   * is estimated as the length of the JSON of its stored property lists.
+   *
+   * @param snapshotId - ID of the snapshot whose objects were stored
+   */
+  private addLoadedSnapshot(snapshotId: stackdriver.BreakpointId) {
+    // The snapshot owns its objects once it is listed as loaded.
+    this.loadedSnapshotByteCountMap.set(snapshotId, 0);
+    this.evictedSnapshotIdSet.delete(snapshotId);
+    let byteCount = 0;
+    const propertyListMapList: Array<Map<Runtime.RemoteObjectId, Array<{}>>> =
+        [this.propertyDescriptorListMap, this.internalPropertyListMap];
+    for (const propertyListMap of propertyListMapList) {
+      propertyListMap.forEach(
+          (propertyList: Array<{}>, objectId: Runtime.RemoteObjectId) => {
+            if (this.getSnapshotId(objectId) === snapshotId) {
+              byteCount += JSON.stringify(propertyList).length;
+            }
+          });
+    }
+    this.loadedSnapshotByteCountMap.set(snapshotId, byteCount);
+    let totalByteCount = 0;
+    this.loadedSnapshotByteCountMap.forEach((count: number) => {
+      totalByteCount += count;
+    });
+    // The newly loaded snapshot is kept even if it exceeds the budget alone.
+    for (const [oldSnapshotId, oldByteCount] of Array.from(
+             this.loadedSnapshotByteCountMap)) {
+      if (oldSnapshotId === snapshotId ||
+          (this.loadedSnapshotByteCountMap.size <= this.maxSnapshotCount &&
+           totalByteCount <= this.maxSnapshotBytes)) {
+        break;
+      }
+      this.releaseSnapshot(oldSnapshotId);
+      this.evictedSnapshotIdSet.add(oldSnapshotId);
+      if (this.evictedSnapshotIdSet.size > MAX_EVICTED_SNAPSHOT_COUNT) {
+        this.evictedSnapshotIdSet.delete(
+            this.evictedSnapshotIdSet.values().next().value);
+      }
+      totalByteCount -= oldByteCount;
+      this.logger.verbose({
+        origin: 'adapter-evict',
+        message: `Evicted the snapshot ${oldSnapshotId} from memory.`,
+      });
+    }
+  }
+
+  /*
+   * @param request - request from Chrome DevTools
+   * @returns parameters of the request, which must have some
+   */
+  private getParams<T>(request: MessageRequest): T {
+    if (!request.params) {
+      throw new ProtocolError(
+          ErrorCode.INVALID_PARAMS,
+          `The \`${request.method}\` request from Chrome DevTools ` +
+              'should specify its parameters.');
     }
-    return line - 1;
+    return request.params as T;
   }
 
-  private breakpointToBreakpointInfo(breakpoint: stackdriver.Breakpoint):
-      BreakpointInfo {
-    return {
-      name: `${breakpoint.location.path}:${breakpoint.location.line}`,
-      id: breakpoint.id,
-    };
+  /*
+   * @param request - request from Chrome DevTools
+   * @returns error for a request which this adapter cannot process
+   */
+  private createUnsupportedError(request: MessageRequest): ProtocolError {
+    return new ProtocolError(
+        ErrorCode.METHOD_NOT_FOUND,
+        `The \`${request.method}\` request from Chrome DevTools ` +
+            `is not supported: ${util.inspect(request, {depth: null})}`);
   }
 
   private nonNull<T>(value: T|null): value is T {
@@ -279,18 +1552,376 @@ export class Adapter extends EventEmitter {
         value: Number(value),
       };
     }
-    // TODO: Parse BigInts.
+    if (/^-?\d+n$/.test(value)) {
+      return {
+        type: 'bigint',
+        description: value,
+        unserializableValue: value,
+      };
+    }
     return {
       type: 'string',
       value,
     };
   }
 
-  /** Continually polls the list of pending breakpoints. */
-  async pollForPendingBreakpoints(): Promise<never> {
-    while (true) {
-      await this.debugProxy.updatePendingBreakpoints(true);
+  /**
+   * Updates the state of all pending breakpoints, and reports those which
+   * reached their final states since the last update.
+   *
+   * @param block - true to block until the breakpoint list changes
+   */
+  async updatePendingBreakpoints(block: boolean) {
+    const expiredAny = await this.expireRepeatingBreakpoints();
+    const pendingBreakpointIdSet = new Set<stackdriver.BreakpointId>(
+        this.debugProxy.getSnapshotIdList(false));
+    await this.debugProxy.updatePendingBreakpoints(block);
+    // The final states are listed with the captured breakpoints.
+    const finalBreakpointList = this.debugProxy.getBreakpointList(true).filter(
+        (breakpoint: stackdriver.Breakpoint) =>
+            pendingBreakpointIdSet.has(breakpoint.id));
+    const finalBreakpointIdList = finalBreakpointList.map(
+        (breakpoint: stackdriver.Breakpoint) => breakpoint.id);
+    const failedList = finalBreakpointList.map(
+        (breakpoint: stackdriver.Breakpoint) =>
+            this.reportFinalState(breakpoint));
+    const repeatedList = await Promise.all(finalBreakpointIdList.map(
+        (breakpointId: stackdriver.BreakpointId, i: number) =>
+            this.repeatBreakpointAfterHit(breakpointId, !failedList[i])));
+    if (expiredAny || failedList.includes(true) ||
+        repeatedList.includes(true)) {
+      // The list was sent on `breakpointHit`, before the failures were known
+      // and before repeating breakpoints were set again.
+      this.emitUpdateBreakpointList();
+    }
+    if (this.archiveDirectory) {
+      await Promise.all(finalBreakpointIdList
+                            .filter(
+                                (breakpointId: stackdriver.BreakpointId,
+                                 i: number) => !failedList[i])
+                            .map(
+                                (breakpointId: stackdriver.BreakpointId) =>
+                                    this.archiveSnapshot(breakpointId)));
+    }
+  }
+
+  /**
+   * Creates an archive of a captured snapshot, with the source lines around
+   * its locations, which can be imported without Stackdriver Debug.
+   *
+   * @param snapshotId - ID of the captured snapshot
+   * @returns archive of the snapshot
+   */
+  async exportSnapshot(snapshotId: stackdriver.BreakpointId):
+      Promise<SnapshotArchive> {
+    const archive = this.importedArchiveMap.get(snapshotId);
+    if (archive) {
+      return archive;
+    }
+    const snapshot = await this.debugProxy.getBreakpoint(snapshotId);
+    if (!snapshot.isFinalState ||
+        (snapshot.status && snapshot.status.isError)) {
+      throw new Error(
+          `The breakpoint ${snapshotId} is not a captured snapshot, ` +
+          'so it cannot be exported.');
+    }
+    return createSnapshotArchive(
+        snapshot as stackdriver.CapturedSnapshot,
+        async (remotePath: stackdriver.SourcePath) => {
+          try {
+            return await readFileP(
+                this.pathMapper.toLocal(remotePath, this.scriptIdList), 'utf8');
+          } catch (error) {
+            // The archive is still useful without the source lines.
+            return undefined;
+          }
+        });
+  }
+
+  /**
+   * Compares the variables of two captured snapshots, e.g. of the same
+   * location captured twice.
+   *
+   * @param beforeId - ID of the snapshot to compare against
+   * @param afterId - ID of the snapshot whose changes are reported
+   * @returns differences between the snapshots
+   */
+  async diffSnapshots(
+      beforeId: stackdriver.BreakpointId,
+      afterId: stackdriver.BreakpointId): Promise<SnapshotDiff> {
+    const [before, after] = await Promise.all([beforeId, afterId].map(
+        async (snapshotId: stackdriver.BreakpointId) => {
+          const snapshot = await this.getSnapshot(snapshotId);
+          if (!snapshot.isFinalState ||
+              (snapshot.status && snapshot.status.isError)) {
+            throw new Error(
+                `The breakpoint ${snapshotId} is not a captured snapshot, ` +
+                'so it cannot be compared.');
+          }
+          return snapshot as stackdriver.CapturedSnapshot;
+        }));
+    return diffSnapshots(before, after);
+  }
+
+  /**
+   * @returns debuggees of the project, e.g. one for each deployment
+   */
+  async listDebuggees(): Promise<DebuggeeInfo[]> {
+    const debuggeeList = await this.debugProxy.getDebuggees();
+    return debuggeeList.map((debuggee: stackdriver.Debuggee) => {
+      const {projectid, version} = debuggee.labels;
+      return {
+        id: debuggee.id,
+        name: `${projectid}, ${version}`,
+        labels: debuggee.labels,
+        current: debuggee.id === this.debuggeeId,
+      };
+    });
+  }
+
+  /**
+   * Makes the proxy debug another debuggee of the project, e.g. after a new
+   * deployment, without restarting it. The breakpoints of the previous
+   * debuggee are removed, and the polling loop moves to the new debuggee.
+   *
+   * @param debuggeeId - ID of the debuggee to debug
+   * @throws if any breakpoint of the previous debuggee could not be removed,
+   * in which case the proxy stays on it, and the switch can be tried again
+   * @fires 'resume' so that DevTools no longer shows a snapshot as paused
+   * @fires 'switchDebuggee' with the new debuggee ID, so that the DevTools
+   * sessions reconnect, since they still show the removed breakpoints
+   */
+  async switchDebuggee(debuggeeId: stackdriver.DebuggeeId) {
+    if (debuggeeId === this.debuggeeId) {
+      return;
+    }
+    const debuggeeList = await this.debugProxy.getDebuggees();
+    const debuggee = debuggeeList.find(
+        (debuggee: stackdriver.Debuggee) => debuggee.id === debuggeeId);
+    if (!debuggee) {
+      throw new Error(`The debuggee ${debuggeeId} was not found.`);
+    }
+    // Removing the breakpoints also ends a blocking poll of the previous
+    // debuggee, since its breakpoint list changes.
+    const breakpointIdList = [
+      ...this.debugProxy.getSnapshotIdList(false),
+      ...this.debugProxy.getSnapshotIdList(true),
+    ];
+    const failedIdList: stackdriver.BreakpointId[] = [];
+    await Promise.all(
+        breakpointIdList.map(async (breakpointId: stackdriver.BreakpointId) => {
+          try {
+            await this.debugProxy.removeBreakpoint(breakpointId);
+          } catch (error) {
+            this.logger.error({
+              origin: 'adapter-debuggee',
+              message: `Failed to remove the breakpoint ${breakpointId}: ` +
+                  error.stack,
+            });
+            failedIdList.push(breakpointId);
+          }
+        }));
+    if (failedIdList.length > 0) {
+      this.emitUpdateBreakpointList();
+      throw new Error(
+          `The breakpoints ${failedIdList.join(', ')} of the current ` +
+          'debuggee could not be removed, so the proxy did not switch to ' +
+          `the debuggee ${debuggeeId}. Try again.`);
+    }
+    this.debugProxy.setDebuggeeId(debuggeeId);
+    this.debuggeeId = debuggeeId;
+    this.debuggeeKey = getDebuggeeKey(this.debugProxy.getProjectId(), debuggee);
+    this.resetDebuggeeState();
+    const message = `Switched to the debuggee ${debuggeeId} ` +
+        `(${debuggee.labels.projectid}, ${debuggee.labels.version}). ` +
+        'The breakpoints of the previous debuggee were removed. Reconnect ' +
+        'Chrome DevTools to set its breakpoints on this debuggee.';
+    this.logger.info({origin: 'adapter-debuggee', message});
+    this.emit('resume');
+    this.emitConsoleMessage('info', message);
+    this.emitUpdateBreakpointList();
+    this.emit('switchDebuggee', debuggeeId);
+  }
+
+  /**
+   * @returns names of the breakpoint sets saved for the debuggee
+   */
+  async listBreakpointSets(): Promise<string[]> {
+    if (!this.breakpointSetFile) {
+      return [];
+    }
+    const state = await readBreakpointSetState(this.breakpointSetFile);
+    return Object.keys(state.breakpointSets[this.debuggeeKey] || {}).sort();
+  }
+
+  /**
+   * Saves the breakpoints set through this adapter, whether pending or
+   * captured, as a named set which can be set again after a restart, e.g.
+   * on a newer deployment of the same service.
+   *
+   * @param name - name of the set, which replaces any set of the same name
+   * @returns number of breakpoints saved in the set
+   */
+  async saveBreakpointSet(name: string): Promise<number> {
+    const breakpointSetFile = this.getBreakpointSetFile();
+    const breakpointList: stackdriver.Breakpoint[] = [
+      ...this.debugProxy.getBreakpointList(true),
+      ...this.debugProxy.getBreakpointList(false),
+    ];
+    const requestMap = new Map<string, SavedBreakpoint>();
+    for (const breakpoint of breakpointList) {
+      // The breakpoints of a repeating breakpoint are saved once, with its
+      // options, even if it failed to be set again.
+      const repeatingBreakpoint =
+          this.repeatingBreakpointMap.get(breakpoint.id);
+      if (!repeatingBreakpoint &&
+          (this.failureMap.has(breakpoint.id) ||
+           (breakpoint.status && breakpoint.status.isError))) {
+        continue;
+      }
+      const request: SavedBreakpoint = repeatingBreakpoint ?
+          {
+            ...repeatingBreakpoint.request,
+            repeatOptions: repeatingBreakpoint.repeatOptions,
+          } :
+          toBreakpointRequest(breakpoint);
+      requestMap.set(JSON.stringify(request), request);
+    }
+    if (requestMap.size === 0) {
+      throw new Error(
+          `The breakpoint set ${name} cannot be saved without breakpoints.`);
+    }
+    const state = await readBreakpointSetState(breakpointSetFile);
+    state.breakpointSets[this.debuggeeKey] = Object.assign(
+        state.breakpointSets[this.debuggeeKey] || {},
+        {[name]: Array.from(requestMap.values())});
+    await writeBreakpointSetState(breakpointSetFile, state);
+    this.logger.info({
+      origin: 'adapter-sets',
+      message: `Saved ${requestMap.size} breakpoints as the set ${name} of ` +
+          `${this.debuggeeKey}.`,
+    });
+    return requestMap.size;
+  }
+
+  /**
+   * Sets the breakpoints of a saved set on the debuggee, all or none of
+   * them, and locates each of them in the console of every session.
+   *
+   * @param name - name of the set saved for the debuggee
+   * @returns breakpoints which were set
+   * @throws if any breakpoint failed, once the others were removed again
+   * @fires 'consoleAPICalled' with a message for each breakpoint
+   */
+  async applyBreakpointSet(name: string): Promise<stackdriver.Breakpoint[]> {
+    const state = await readBreakpointSetState(this.getBreakpointSetFile());
+    const breakpointSetMap = state.breakpointSets[this.debuggeeKey] || {};
+    if (!breakpointSetMap.hasOwnProperty(name)) {
+      throw new Error(
+          `No breakpoint set named ${name} was saved for ${this.debuggeeKey}.`);
+    }
+    const breakpointList =
+        await this.setAllBreakpoints(breakpointSetMap[name].map(
+            ({repeatOptions, ...request}: SavedBreakpoint) => async () => {
+              const breakpoint = await this.debugProxy.setBreakpoint(request);
+              if (repeatOptions) {
+                this.addRepeatingBreakpoint(
+                    breakpoint.id, request, repeatOptions);
+              }
+              return breakpoint;
+            }));
+    const message = `Set the ${breakpointList.length} breakpoints of the ` +
+        `breakpoint set ${name}.`;
+    this.logger.info({origin: 'adapter-sets', message});
+    this.emitConsoleMessage('info', message);
+    for (const breakpoint of breakpointList) {
+      this.adoptBreakpoint(breakpoint.id);
+      this.emit(
+          'consoleAPICalled', this.createAdoptedBreakpointMessage(breakpoint));
+    }
+    this.emitUpdateBreakpointList();
+    return breakpointList;
+  }
+
+  /**
+   * Makes a pending breakpoint set again after each snapshot it captures,
+   * e.g. when a repeat is requested for it in the extension.
+   *
+   * @param breakpointId - ID of the pending breakpoint
+   * @param repeatOptions - how long to keep setting the breakpoint again
+   */
+  async repeatBreakpoint(
+      breakpointId: stackdriver.BreakpointId, repeatOptions: RepeatOptions) {
+    const repeatingBreakpoint = this.repeatingBreakpointMap.get(breakpointId);
+    if (repeatingBreakpoint &&
+        this.hasRepeatWindowPassed(repeatingBreakpoint)) {
+      // It is removed with the next update, and its options are kept.
+      throw new Error(
+          `The repeating breakpoint ${repeatingBreakpoint.id} expired, so it ` +
+          'cannot be repeated again.');
+    }
+    const breakpoint = await this.debugProxy.getBreakpoint(breakpointId);
+    if (breakpoint.isFinalState) {
+      throw new Error(
+          `The breakpoint ${breakpointId} is not pending, so it cannot ` +
+          'be repeated.');
     }
+    if (repeatingBreakpoint) {
+      repeatingBreakpoint.repeatOptions = repeatOptions;
+    } else {
+      this.addRepeatingBreakpoint(
+          breakpointId, {
+            action: stackdriver.Action.CAPTURE,
+            location: breakpoint.location,
+            condition: breakpoint.condition,
+            expressions: breakpoint.expressions,
+          },
+          repeatOptions);
+    }
+    this.emitUpdateBreakpointList();
+  }
+
+  /**
+   * Adds a snapshot from an archive to the captured snapshots, from which
+   * it is loaded without contacting Stackdriver Debug.
+   *
+   * @param archive - archive of the snapshot
+   * @returns ID of the imported snapshot
+   */
+  importSnapshot(archive: SnapshotArchive): stackdriver.BreakpointId {
+    const snapshot = archive.snapshot;
+    this.importedArchiveMap.set(snapshot.id, archive);
+    this.logger.info({
+      origin: 'adapter-import',
+      message: `Imported the snapshot ${snapshot.id}.`,
+    });
+    const location = snapshot.location;
+    const lineMap = archive.sourceLines[location.path];
+    const sourceLine = lineMap && lineMap[location.line];
+    this.emitConsoleMessage(
+        'info',
+        `Imported the snapshot captured at ${location.path}:${location.line}` +
+            (sourceLine === undefined ? '.' : `: ${sourceLine.trim()}`),
+        location);
+    this.emitUpdateBreakpointList();
+    return snapshot.id;
+  }
+
+  /**
+   * Forgets the watch expressions of a session which closed.
+   *
+   * @param sessionId - ID of the session
+   */
+  closeSession(sessionId: SessionId) {
+    this.watchExpressionSetMap.delete(sessionId);
+    this.watchRefreshSessionIdSet.delete(sessionId);
+  }
+
+  /**
+   * @param scriptIdList - IDs of all the scripts announced to DevTools
+   */
+  setScriptIdList(scriptIdList: Runtime.ScriptId[]) {
+    this.scriptIdList = scriptIdList;
   }
 
   /** @returns path to the selected source directory */
@@ -303,27 +1934,261 @@ export class Adapter extends EventEmitter {
     this.emit('loadSnapshot', snapshotId);
   }
 
+  /*
+   * @param type - console API type of the message, e.g. `info`
+   * @param text - text of the message to show in the console
+   * @param location - source location that the message refers to
+   * @returns the message as a `Runtime.consoleAPICalled` event
+   */
+  private createConsoleMessage(
+      type: string, text: string, location?: stackdriver.SourceLocation):
+      Runtime.ConsoleAPICalledEventDataType {
+    const params: Runtime.ConsoleAPICalledEventDataType = {
+      type,
+      args: [{type: 'string', value: text}],
+      executionContextId: 0,
+      timestamp: Date.now(),
+    };
+    if (location) {
+      params.stackTrace = {
+        callFrames: [{
+          functionName: '',
+          scriptId: location.path,
+          url: location.path,
+          lineNumber: this.stackdriverToDevToolsLine(location.line),
+          columnNumber: 0,
+        }],
+      };
+    }
+    return params;
+  }
+
+  /**
+   * @param type - console API type of the message, e.g. `info`
+   * @param text - text of the message to show in the console
+   * @param location - source location that the message refers to
+   * @param excludedSessionId - session which is not sent the message, e.g.
+   * the one whose request it reports to the others
+   * @fires 'consoleAPICalled' with the given message and excluded session
+   */
+  emitConsoleMessage(
+      type: string, text: string, location?: stackdriver.SourceLocation,
+      excludedSessionId?: SessionId) {
+    this.emit(
+        'consoleAPICalled', this.createConsoleMessage(type, text, location),
+        excludedSessionId);
+  }
+
+  /**
+   * Relays the output which the pending logpoints wrote to the application
+   * log since the last call to the console, at their locations. Nothing is
+   * read without a log reader, nor while no logpoint is set.
+   *
+   * @fires 'consoleAPICalled' with each line of output of a logpoint
+   */
+  async relayLogpointOutput() {
+    if (!this.logReader) {
+      return;
+    }
+    const logpointList = this.debugProxy.getBreakpointList(false).filter(
+        (breakpoint: stackdriver.Breakpoint) =>
+            breakpoint.action === stackdriver.Action.LOG &&
+            breakpoint.logMessageFormat !== undefined);
+    if (logpointList.length === 0) {
+      // Lines logged while no logpoint is set are not output of logpoints.
+      this.logReader.reset();
+      return;
+    }
+    for (const line of await this.logReader.readLogpointLines()) {
+      for (const logpoint of logpointList) {
+        const message = matchLogpointOutput(logpoint.logMessageFormat!, line);
+        if (message !== null) {
+          this.emitConsoleMessage(
+              LOG_LEVEL_CONSOLE_TYPE_MAP.get(logpoint.logLevel || 'INFO') ||
+                  'log',
+              message, logpoint.location);
+          break;
+        }
+      }
+    }
+  }
+
   /** @fires 'updateBreakpointList' with the current breakpoint info lists */
   emitUpdateBreakpointList() {
     const pendingBreakpointInfoList: BreakpointInfo[] =
         this.debugProxy.getBreakpointList(false).map(
-            this.breakpointToBreakpointInfo);
+            this.breakpointToBreakpointInfo, this);
+    const capturedSnapshotList = this.getCapturedSnapshotList();
+    // The snapshots of a repeating breakpoint are listed as one, by the latest.
+    const isListed = (snapshot: stackdriver.Breakpoint) => {
+      const repeatingBreakpoint = this.repeatingBreakpointMap.get(snapshot.id);
+      const snapshotIdList = repeatingBreakpoint ?
+          repeatingBreakpoint.snapshotIdList :
+          [snapshot.id];
+      return snapshot.id === snapshotIdList[snapshotIdList.length - 1];
+    };
     const capturedSnapshotInfoList: BreakpointInfo[] =
-        this.debugProxy.getBreakpointList(true).map(
-            this.breakpointToBreakpointInfo);
+        capturedSnapshotList.filter(isListed).map(
+            this.breakpointToBreakpointInfo, this);
     this.emit('updateBreakpointList', {
       pendingBreakpointInfoList,
       capturedSnapshotInfoList,
     });
   }
 
+  /*
+   * @param breakpointId - ID of a pending breakpoint in Stackdriver Debug
+   * @param devToolsBreakpointIdMap - DevTools IDs of breakpoints which were
+   * set with `urlRegex`
+   * @returns ID of the breakpoint in DevTools
+   */
+  private toDevToolsBreakpointId(
+      breakpointId: stackdriver.BreakpointId,
+      devToolsBreakpointIdMap:
+          Map<stackdriver.BreakpointId, Debugger.BreakpointId>):
+      Debugger.BreakpointId {
+    // Repeating breakpoints are known by the ID of their first breakpoint.
+    const repeatingBreakpoint = this.repeatingBreakpointMap.get(breakpointId);
+    const firstBreakpointId =
+        repeatingBreakpoint ? repeatingBreakpoint.id : breakpointId;
+    return devToolsBreakpointIdMap.get(firstBreakpointId) || firstBreakpointId;
+  }
+
+  /*
+   * Tracks a pending breakpoint which DevTools did not set, so that it is
+   * listed in the Snapshot Explorer, from which it is removed.
+   *
+   * @param breakpointId - ID of the breakpoint in Stackdriver Debug
+   */
+  private adoptBreakpoint(breakpointId: stackdriver.BreakpointId) {
+    this.breakpointIdListMap.set(breakpointId, [breakpointId]);
+    this.adoptedBreakpointIdSet.add(breakpointId);
+  }
+
+  /*
+   * @param breakpoint - pending breakpoint which DevTools did not set
+   * @returns console message linking to the breakpoint, which DevTools
+   * cannot show in its gutter
+   */
+  private createAdoptedBreakpointMessage(breakpoint: stackdriver.Breakpoint):
+      Runtime.ConsoleAPICalledEventDataType {
+    return this.createConsoleMessage(
+        'info',
+        `Breakpoint at ${breakpoint.location.path}:` +
+            `${breakpoint.location.line} was not set in Chrome DevTools. ` +
+            'Remove it in the Snapshot Explorer.',
+        breakpoint.location);
+  }
+
+  /**
+   * Lists the pending breakpoints, so that a newly connected Chrome DevTools
+   * can show the breakpoints set through this proxy and remove them.
+   *
+   * @returns events resolving each pending breakpoint set through this proxy
+   * to its location
+   */
+  async getPendingBreakpointResolvedList():
+      Promise<Debugger.BreakpointResolvedEventDataType[]> {
+    // Breakpoints set with `urlRegex` are resolved under their DevTools ID.
+    const devToolsBreakpointIdMap =
+        new Map<stackdriver.BreakpointId, Debugger.BreakpointId>();
+    this.breakpointIdListMap.forEach(
+        (breakpointIdList: stackdriver.BreakpointId[],
+         devToolsBreakpointId: Debugger.BreakpointId) => {
+          breakpointIdList.forEach(
+              (breakpointId: stackdriver.BreakpointId) =>
+                  devToolsBreakpointIdMap.set(
+                      breakpointId, devToolsBreakpointId));
+        });
+    // DevTools ignores the resolution of a breakpoint that it did not set.
+    const pendingBreakpointList: stackdriver.Breakpoint[] =
+        this.debugProxy.getBreakpointList(false).filter(
+            (breakpoint: stackdriver.Breakpoint) =>
+                !this.adoptedBreakpointIdSet.has(breakpoint.id));
+    return Promise.all(pendingBreakpointList.map(
+        async (breakpoint: stackdriver.Breakpoint) => ({
+          breakpointId: this.toDevToolsBreakpointId(
+              breakpoint.id, devToolsBreakpointIdMap),
+          location:
+              await this.stackdriverToDevToolsLocation(breakpoint.location),
+        })));
+  }
+
+  /**
+   * Chrome DevTools cannot show the breakpoints which it did not set, e.g.
+   * those from a saved set, so they are located in its console instead.
+   *
+   * @returns console messages linking to each adopted breakpoint
+   */
+  getAdoptedBreakpointMessageList(): Runtime.ConsoleAPICalledEventDataType[] {
+    return this.debugProxy.getBreakpointList(false)
+        .filter(
+            (breakpoint: stackdriver.Breakpoint) =>
+                this.adoptedBreakpointIdSet.has(breakpoint.id))
+        .map(this.createAdoptedBreakpointMessage, this);
+  }
+
+  /**
+   * Removes a breakpoint with all the breakpoints in Stackdriver Debug which
+   * it maps to, and tells the other sessions, which may still show it.
+   *
+   * @param breakpointId - ID of the breakpoint in Chrome DevTools, or of an
+   * adopted breakpoint
+   * @param sessionId - session which removed the breakpoint
+   */
+  async removeBreakpoint(
+      breakpointId: Debugger.BreakpointId, sessionId = DEFAULT_SESSION_ID) {
+    const removedBreakpointIdSet = new Set<stackdriver.BreakpointId>();
+    for (const stackdriverBreakpointId of this.breakpointIdListMap.get(
+             breakpointId) ||
+         [breakpointId]) {
+      // Repeating breakpoints are removed with all their snapshots.
+      this.getRepeatingBreakpointIdList(stackdriverBreakpointId)
+          .forEach(
+              (removedBreakpointId: stackdriver.BreakpointId) =>
+                  removedBreakpointIdSet.add(removedBreakpointId));
+    }
+    // Another session may have removed the breakpoint already.
+    const removedBreakpointList =
+        [
+          ...this.debugProxy.getBreakpointList(false),
+          ...this.debugProxy.getBreakpointList(true),
+        ]
+            .filter(
+                (breakpoint: stackdriver.Breakpoint) =>
+                    removedBreakpointIdSet.has(breakpoint.id));
+    await Promise.all(removedBreakpointList.map(
+        (breakpoint: stackdriver.Breakpoint) =>
+            this.debugProxy.removeBreakpoint(breakpoint.id)));
+    removedBreakpointIdSet.forEach(
+        (removedBreakpointId: stackdriver.BreakpointId) => {
+          this.failureMap.delete(removedBreakpointId);
+          this.repeatingBreakpointMap.delete(removedBreakpointId);
+          this.adoptedBreakpointIdSet.delete(removedBreakpointId);
+        });
+    this.breakpointIdListMap.delete(breakpointId);
+    this.emitUpdateBreakpointList();
+    for (const breakpoint of removedBreakpointList) {
+      if (!breakpoint.isFinalState) {
+        this.emitConsoleMessage(
+            'info',
+            `Breakpoint at ${breakpoint.location.path}:` +
+                `${breakpoint.location.line} was removed in another ` +
+                'session. Remove it here too, if it is still shown.',
+            breakpoint.location, sessionId);
+      }
+    }
+  }
+
   /**
    * Processes requests from Chrome DevTools.
    *
    * @param request - request from Chrome DevTools
+   * @param sessionId - session which sent the request
    * @returns response to request from Chrome DevTools
    */
-  async processRequest(request: MessageRequest): Promise<ProcessedResponse> {
+  async processRequest(request: MessageRequest, sessionId = DEFAULT_SESSION_ID):
+      Promise<ProcessedResponse> {
     const [domain, method] = request.method.split('.', 2) as [Domain, Method];
     if (domain === 'Debugger') {
       // https://chromedevtools.github.io/devtools-protocol/tot/Debugger
@@ -333,64 +2198,185 @@ export class Adapter extends EventEmitter {
           return {debuggerId: this.debugProxy.getDebuggerId()};
         case 'getScriptSource':
           const getScriptSourceRequest =
-              request.params as Debugger.GetScriptSourceParameterType;
+              this.getParams<Debugger.GetScriptSourceParameterType>(request);
           // parse-scripts.ts makes  `scriptId` an absolute path to the file.
           return {
             scriptSource:
                 await readFileP(getScriptSourceRequest.scriptId, 'utf8'),
           };
+        case 'getPossibleBreakpoints':
+          const getPossibleBreakpointsRequest =
+              this.getParams<Debugger.GetPossibleBreakpointsParameterType>(
+                  request);
+          const {start, end} = getPossibleBreakpointsRequest;
+          // parse-scripts.ts makes  `scriptId` an absolute path to the file.
+          const breakLocationList = await parseStatements(start.scriptId);
+          return {
+            locations: breakLocationList.filter(
+                (location: Debugger.BreakLocation) =>
+                    this.compareLocations(location, start) >= 0 &&
+                    (!end || this.compareLocations(location, end) < 0)),
+          };
         case 'removeBreakpoint':
           const removeBreakpointRequest =
-              request.params as Debugger.RemoveBreakpointParameterType;
-          await this.debugProxy.removeBreakpoint(
-              removeBreakpointRequest.breakpointId);
+              this.getParams<Debugger.RemoveBreakpointParameterType>(request);
+          await this.removeBreakpoint(
+              removeBreakpointRequest.breakpointId, sessionId);
           return {};
         case 'resume':
+          this.pausedCallFrameId = undefined;
+          this.pausedSnapshotId = undefined;
           this.emit('resume');
           return {};
+        case 'searchInContent':
+          const searchInContentRequest =
+              this.getParams<Debugger.SearchInContentParameterType>(request);
+          try {
+            return {
+              result: await searchScript(
+                  searchInContentRequest.scriptId, searchInContentRequest.query,
+                  searchInContentRequest.caseSensitive,
+                  searchInContentRequest.isRegex),
+            };
+          } catch (error) {
+            // Only an invalid regular expression throws a `SyntaxError`.
+            throw error instanceof SyntaxError ?
+                new ProtocolError(ErrorCode.INVALID_PARAMS, error.message) :
+                error;
+          }
         case 'setBreakpointByUrl':
           const setBreakpointByUrlRequest =
-              request.params as Debugger.SetBreakpointByUrlParameterType;
-          let breakpoint: stackdriver.Breakpoint;
-          // TODO: setBreakpointByUrl request is valid with `urlRegex` property.
-          if (!setBreakpointByUrlRequest.url) {
-            throw new Error(
+              this.getParams<Debugger.SetBreakpointByUrlParameterType>(request);
+          let scriptIdList: Runtime.ScriptId[];
+          // Like V8, identify a breakpoint set with `urlRegex` by its line
+          // and regex, and reject it if it is already set.
+          let breakpointId: Debugger.BreakpointId =
+              `${setBreakpointByUrlRequest.lineNumber}:` +
+              `${setBreakpointByUrlRequest.urlRegex}`;
+          if (setBreakpointByUrlRequest.url) {
+            scriptIdList = [setBreakpointByUrlRequest.url];
+          } else if (setBreakpointByUrlRequest.urlRegex) {
+            let urlRegex: RegExp;
+            try {
+              urlRegex = new RegExp(setBreakpointByUrlRequest.urlRegex);
+            } catch (error) {
+              throw new ProtocolError(ErrorCode.INVALID_PARAMS, error.message);
+            }
+            scriptIdList = this.scriptIdList.filter(
+                (scriptId: Runtime.ScriptId) => urlRegex.test(scriptId));
+            if (this.breakpointIdListMap.has(breakpointId)) {
+              throw new ProtocolError(
+                  ErrorCode.SERVER_ERROR,
+                  'Breakpoint at specified location already exists.');
+            }
+            // Reserved while its breakpoints are set, for repeated requests.
+            this.breakpointIdListMap.set(breakpointId, []);
+          } else {
+            throw new ProtocolError(
+                ErrorCode.INVALID_PARAMS,
                 'The setBreakpointByUrl request from Chrome DevTools should ' +
-                'specify the `url` property.');
+                    'specify either the `url` or the `urlRegex` property.');
+          }
+          let breakpointList: stackdriver.Breakpoint[];
+          try {
+            breakpointList = await this.setAllBreakpoints(scriptIdList.map(
+                (scriptId: Runtime.ScriptId) => () =>
+                    this.setStackdriverBreakpoint(
+                        scriptId, setBreakpointByUrlRequest.lineNumber,
+                        setBreakpointByUrlRequest.condition, sessionId)));
+          } catch (error) {
+            this.breakpointIdListMap.delete(breakpointId);
+            throw error;
+          }
+          if (setBreakpointByUrlRequest.url) {
+            breakpointId = breakpointList[0].id;
           } else {
-            breakpoint = await this.debugProxy.setBreakpoint({
-              action: stackdriver.Action.CAPTURE,
-              location: {
-                path: setBreakpointByUrlRequest.url,
-                line: this.devToolsToStackdriverLine(
-                    setBreakpointByUrlRequest.lineNumber),
-              },
-              condition: setBreakpointByUrlRequest.condition,
-            });
+            this.breakpointIdListMap.set(
+                breakpointId,
+                breakpointList.map(
+                    (breakpoint: stackdriver.Breakpoint) => breakpoint.id));
           }
           this.emitUpdateBreakpointList();
+          // Other sessions cannot show a breakpoint that they did not set.
+          for (const breakpoint of breakpointList) {
+            this.emitConsoleMessage(
+                'info',
+                `Breakpoint at ${breakpoint.location.path}:` +
+                    `${breakpoint.location.line} was set in another session.`,
+                breakpoint.location, sessionId);
+          }
           return {
-            breakpointId: breakpoint.id,
-            locations: [{
-              scriptId: breakpoint.location.path,
-              lineNumber:
-                  this.stackdriverToDevToolsLine(breakpoint.location.line),
-              columnNumber: 0,
-            }]
+            breakpointId,
+            locations: await Promise.all(breakpointList.map(
+                (breakpoint: stackdriver.Breakpoint) =>
+                    this.stackdriverToDevToolsLocation(breakpoint.location))),
           };
-        case 'continueToLocation':
         case 'evaluateOnCallFrame':
+          const evaluateOnCallFrameRequest =
+              this.getParams<Debugger.EvaluateOnCallFrameParameterType>(
+                  request);
+          const expression = evaluateOnCallFrameRequest.expression.trim();
+          if (evaluateOnCallFrameRequest.objectGroup === WATCH_OBJECT_GROUP &&
+              expression) {
+            this.addWatchExpression(sessionId, expression);
+          }
+          const evaluatedExpressionResultMap = this.evaluatedExpressionMap.get(
+              evaluateOnCallFrameRequest.callFrameId);
+          const evaluatedExpressionResult = evaluatedExpressionResultMap &&
+              evaluatedExpressionResultMap.get(expression);
+          if (evaluatedExpressionResult &&
+              evaluateOnCallFrameRequest.generatePreview) {
+            return {
+              ...evaluatedExpressionResult,
+              result: this.addPreview(evaluatedExpressionResult.result),
+            };
+          }
+          if (evaluatedExpressionResult) {
+            return evaluatedExpressionResult;
+          }
+          // Otherwise the expression is evaluated over the captured data.
+          const evaluationResult =
+              this.callFrameMap.has(evaluateOnCallFrameRequest.callFrameId) ?
+              this.createEvaluationResult(
+                  () => evaluateExpression(
+                      expression,
+                      this.createEvaluationContext(
+                          evaluateOnCallFrameRequest.callFrameId)),
+                  evaluateOnCallFrameRequest.generatePreview,
+                  evaluateOnCallFrameRequest.objectGroup) :
+              undefined;
+          if (evaluationResult &&
+              (!evaluationResult.exceptionDetails ||
+               evaluateOnCallFrameRequest.objectGroup !== WATCH_OBJECT_GROUP)) {
+            return evaluationResult;
+          }
+          return this.createExceptionResult(
+              `\`${expression}\` was not captured at this breakpoint. ` +
+              'Watch expressions are captured with snapshots taken ' +
+              'after they are added.');
+        case 'continueToLocation':
+        case 'stepInto':
+        case 'stepOut':
+        case 'stepOver':
+          const nextSnapshotId =
+              await this.findNextSnapshotId(debuggerMethod, request);
+          if (!nextSnapshotId) {
+            this.emitConsoleMessage(
+                'info', 'No later snapshot was captured to step to.');
+            return {};
+          }
+          // DevTools resumes and pauses again, at the next snapshot.
+          this.pausedCallFrameId = undefined;
+          this.pausedSnapshotId = undefined;
+          this.emit('resume');
+          this.emitLoadSnapshot(nextSnapshotId);
+          return {};
         case 'restartFrame':
         case 'scheduleStepIntoAsync':
         case 'setReturnValue':
         case 'setScriptSource':
         case 'setVariableValue':
-        case 'stepInto':
-        case 'stepOut':
-        case 'stepOver':
-          throw new Error(
-              `The \`${request.method}\` request from Chrome DevTools ` +
-              `is not supported: ${util.inspect(request, {depth: null})}`);
+          throw this.createUnsupportedError(request);
         // These methods have no effect and do not require a response.
         case 'disable':
         case 'pause':
@@ -403,16 +2389,16 @@ export class Adapter extends EventEmitter {
         case 'setSkipAllPauses':
           return {};
         // TODO: Implement all the other methods.
-        case 'getPossibleBreakpoints':
         case 'getStackTrace':
-        case 'searchInContent':
         case 'setBreakpoint':
         case 'setBreakpointOnFunctionCall':
           return {};
         default:
           // Cast to never to check that all cases are covered at compile-time.
           const _: never = debuggerMethod;
-          throw new Error(`Unrecognized debugger method: ${debuggerMethod}`);
+          throw new ProtocolError(
+              ErrorCode.METHOD_NOT_FOUND,
+              `Unrecognized debugger method: ${debuggerMethod}`);
       }
     } else if (domain === 'Runtime') {
       // https://chromedevtools.github.io/devtools-protocol/tot/Runtime
@@ -420,20 +2406,98 @@ export class Adapter extends EventEmitter {
       switch (runtimeMethod) {
         case 'getProperties':
           const getPropertiesRequest =
-              request.params as Runtime.GetPropertiesParameterType;
+              this.getParams<Runtime.GetPropertiesParameterType>(request);
+          const objectId = this.resolveObjectId(getPropertiesRequest.objectId);
           const propertyDescriptorList =
-              this.propertyDescriptorListMap.get(getPropertiesRequest.objectId);
+              this.propertyDescriptorListMap.get(objectId);
           if (propertyDescriptorList === undefined) {
-            throw new Error(
-                `The remote object with ID ${getPropertiesRequest.objectId} ` +
-                'does not exist in the internal object property map.');
+            throw this.createMissingObjectError(getPropertiesRequest.objectId);
+          }
+          // Snapshots capture the values of own properties, so there are
+          // neither accessors nor inherited properties, whatever the value
+          // of `ownProperties` is.
+          if (getPropertiesRequest.accessorPropertiesOnly) {
+            return {
+              result: propertyDescriptorList.filter(
+                  (property: Runtime.PropertyDescriptor) =>
+                      property.get || property.set),
+            };
+          }
+          const getPropertiesResponse: Runtime.GetPropertiesReturnType = {
+            result: getPropertiesRequest.generatePreview ?
+                propertyDescriptorList.map(
+                    (property: Runtime.PropertyDescriptor) => property.value ?
+                        {...property, value: this.addPreview(property.value)} :
+                        property) :
+                propertyDescriptorList,
+          };
+          const internalPropertyList =
+              this.internalPropertyListMap.get(objectId);
+          if (internalPropertyList) {
+            getPropertiesResponse.internalProperties = internalPropertyList;
+          }
+          return getPropertiesResponse;
+        case 'evaluate':
+          const evaluateRequest =
+              this.getParams<Runtime.EvaluateParameterType>(request);
+          // DevTools evaluates the Watch pane here while nothing is paused.
+          if (evaluateRequest.objectGroup === WATCH_OBJECT_GROUP &&
+              evaluateRequest.expression.trim()) {
+            this.addWatchExpression(
+                sessionId, evaluateRequest.expression.trim());
+          }
+          // The console evaluates in the top frame of the paused snapshot.
+          return this.createEvaluationResult(
+              () => evaluateExpression(
+                  evaluateRequest.expression,
+                  this.createEvaluationContext(this.pausedCallFrameId)),
+              evaluateRequest.generatePreview, evaluateRequest.objectGroup);
+        case 'callFunctionOn':
+          const callFunctionOnRequest =
+              this.getParams<Runtime.CallFunctionOnParameterType>(request);
+          let thisObject: Runtime.RemoteObject = {type: 'undefined'};
+          if (callFunctionOnRequest.objectId) {
+            thisObject = {
+              type: 'object',
+              objectId: this.resolveObjectId(callFunctionOnRequest.objectId),
+            };
+          }
+          return this.createEvaluationResult(
+              () => callFunction(
+                  callFunctionOnRequest.functionDeclaration, thisObject,
+                  callFunctionOnRequest.arguments || [],
+                  this.createEvaluationContext()),
+              callFunctionOnRequest.generatePreview,
+              callFunctionOnRequest.objectGroup);
+        case 'releaseObject':
+          const releaseObjectRequest =
+              this.getParams<Runtime.ReleaseObjectParameterType>(request);
+          const releasedObjectId = releaseObjectRequest.objectId;
+          // Only aliases are released, since every other reference to an
+          // object shares its ID, and objects are released with snapshots.
+          this.objectAliasMap.delete(releasedObjectId);
+          this.objectGroupMap.forEach(
+              (aliasIdSet: Set<Runtime.RemoteObjectId>) =>
+                  aliasIdSet.delete(releasedObjectId));
+          return {};
+        case 'releaseObjectGroup':
+          const releaseObjectGroupRequest =
+              this.getParams<Runtime.ReleaseObjectGroupParameterType>(request);
+          if (releaseObjectGroupRequest.objectGroup === WATCH_OBJECT_GROUP) {
+            this.watchRefreshSessionIdSet.add(sessionId);
           }
-          return {result: propertyDescriptorList};
+          const aliasIdSet =
+              this.objectGroupMap.get(releaseObjectGroupRequest.objectGroup);
+          if (aliasIdSet) {
+            aliasIdSet.forEach(
+                (aliasId: Runtime.RemoteObjectId) =>
+                    this.objectAliasMap.delete(aliasId));
+            this.objectGroupMap.delete(releaseObjectGroupRequest.objectGroup);
+          }
+          return {};
         case 'addBinding':
         case 'awaitPromise':
-        case 'callFunctionOn':
         case 'compileScript':
-        case 'evaluate':
         case 'getIsolateId':
         case 'getHeapUsage':
         case 'globalLexicalScopeNames':
@@ -441,15 +2505,11 @@ export class Adapter extends EventEmitter {
         case 'removeBinding':
         case 'runScript':
         case 'terminateExecution':
-          throw new Error(
-              `The \`${request.method}\` request from Chrome DevTools ` +
-              `is not supported: ${util.inspect(request, {depth: null})}`);
+          throw this.createUnsupportedError(request);
         // These methods have no effect and do not require a response.
         case 'disable':
         case 'discardConsoleEntries':
         case 'enable':
-        case 'releaseObject':
-        case 'releaseObjectGroup':
         case 'runIfWaitingForDebugger':
         case 'setAsyncCallStackDepth':
         case 'setCustomObjectFormatterEnabled':
@@ -458,7 +2518,9 @@ export class Adapter extends EventEmitter {
         default:
           // Cast to never to check that all cases are covered at compile-time.
           const _: never = runtimeMethod;
-          throw new Error(`Unrecognized runtime method: ${runtimeMethod}`);
+          throw new ProtocolError(
+              ErrorCode.METHOD_NOT_FOUND,
+              `Unrecognized runtime method: ${runtimeMethod}`);
       }
     } else {
       // TODO: Implement all the other domains.
@@ -475,12 +2537,12 @@ export class Adapter extends EventEmitter {
   async loadSnapshot(snapshotId: stackdriver.BreakpointId):
       Promise<Debugger.PausedEventDataType> {
     const nonNull = this.nonNull;
-    const logVariableStatus = this.logVariableStatus;
+    const logVariableStatus = this.logVariableStatus.bind(this);
     const parseVariableValue = this.parseVariableValue;
     const varTableIndexToRemoteObjectMap =
         new Map<number, Runtime.RemoteObject>();
-    const snapshot = await this.debugProxy.getBreakpoint(snapshotId) as
-        stackdriver.CapturedSnapshot;
+    const snapshot =
+        await this.getSnapshot(snapshotId) as stackdriver.CapturedSnapshot;
     snapshot.stackFrames = snapshot.stackFrames || [];
     snapshot.variableTable = snapshot.variableTable || [];
     if (!snapshot.isFinalState) {
@@ -488,6 +2550,8 @@ export class Adapter extends EventEmitter {
           'The following breakpoint from Stackdriver Debug is not ' +
           `a captured snapshot: ${util.inspect(snapshot, {depth: null})}`);
     }
+    // Loading a snapshot again replaces all of its objects.
+    this.releaseSnapshot(snapshot.id);
 
     function getObjectId(varTableIndex: number): Runtime.RemoteObjectId {
       return `${snapshot.id}-object-${varTableIndex}`;
@@ -531,6 +2595,44 @@ export class Adapter extends EventEmitter {
       return list.map(parseVariable).filter(nonNull);
     }
 
+    /*
+     * @param className - class of an array, a typed array, a map or a set
+     * @param members - captured members of the collection
+     * @param sizeName - name of the member with the size of the collection
+     * @returns description of the collection with its size, e.g. `Map(2)`
+     */
+    function describeCollection(
+        className: string, members: stackdriver.Variable[]|undefined,
+        sizeName: string): string {
+      if (!members) {
+        return className;
+      }
+      // Collections may be truncated, so a captured size is preferred.
+      const sizeMember = members.find(
+          (member: stackdriver.Variable) => member.name === sizeName);
+      const size = sizeMember && sizeMember.value ?
+          sizeMember.value :
+          members
+              .filter(
+                  (member: stackdriver.Variable) =>
+                      member.name && member.name !== sizeName)
+              .length;
+      return `${className}(${size})`;
+    }
+
+    /*
+     * Removes the receiver of the stack frame from the given variables.
+     *
+     * @param list - arguments or locals of a stack frame
+     * @returns the variable named `this`, if the list has one
+     */
+    function takeThisVariable(list: stackdriver.Variable[]):
+        stackdriver.Variable|undefined {
+      const index = list.findIndex(
+          (variable: stackdriver.Variable) => variable.name === 'this');
+      return index === -1 ? undefined : list.splice(index, 1)[0];
+    }
+
     snapshot.variableTable.forEach(
         (variable: stackdriver.Variable, index: number) => {
           if (variable.name || variable.type || variable.varTableIndex) {
@@ -553,28 +2655,20 @@ export class Adapter extends EventEmitter {
               if (REMOTE_OBJECT_SUBTYPE_SET.has(className.toLowerCase())) {
                 subtype = className.toLowerCase();
                 if (subtype === 'array') {
-                  if (variable.members) {
-                    for (const member of variable.members) {
-                      if (member.name === 'length') {
-                        description = `Array(${member.value})`;
-                        break;
-                      }
-                    }
-                  }
-                  if (!description) {
-                    throw new Error(
-                        'The following array variable from Stackdriver ' +
-                        'Debug does not have the `length` property: ' +
-                        util.inspect(variable, {depth: null}));
-                  }
+                  description =
+                      describeCollection(className, variable.members, 'length');
+                } else if (subtype === 'map' || subtype === 'set') {
+                  description =
+                      describeCollection(className, variable.members, 'size');
                 } else {
                   description = className;
                 }
+              } else if (TYPED_ARRAY_SET.has(className)) {
+                subtype = 'typedarray';
+                description =
+                    describeCollection(className, variable.members, 'length');
               } else {
                 description = className;
-                if (TYPED_ARRAY_SET.has(className)) {
-                  subtype = 'typedarray';
-                }
               }
             } else if (variable.value.startsWith('Error')) {
               className = 'Error';
@@ -633,6 +2727,22 @@ export class Adapter extends EventEmitter {
                 'Debug should not itself have the `type` nor `varTableIndex` ' +
                 `properties: ${util.inspect(variable, {depth: null})}`);
           }
+          const remoteObject = varTableIndexToRemoteObjectMap.get(index);
+          if (variable.members && remoteObject &&
+              (remoteObject.subtype === 'map' ||
+               remoteObject.subtype === 'set')) {
+            // The members of maps and sets are their entries.
+            const isSize = (member: stackdriver.Variable) =>
+                member.name === 'size';
+            this.propertyDescriptorListMap.set(
+                getObjectId(index),
+                parseVariableList(variable.members.filter(isSize)));
+            this.setEntries(
+                getObjectId(index), remoteObject.subtype,
+                parseVariableList(variable.members.filter(
+                    (member: stackdriver.Variable) => !isSize(member))));
+            return;
+          }
           if (variable.value) {
             const propertyDescriptorList =
                 variable.members ? parseVariableList(variable.members) : [{
@@ -646,52 +2756,89 @@ export class Adapter extends EventEmitter {
           }
         });
 
+    // Stackdriver Debug evaluates expressions only in the top stack frame.
+    const evaluatedExpressionResultMap = new Map<
+        stackdriver.Expression, Debugger.EvaluateOnCallFrameReturnType>();
+    (snapshot.evaluatedExpressions ||
+     []).forEach((variable: stackdriver.Variable) => {
+      if (!variable.name) {
+        return;
+      }
+      if (variable.status && variable.status.isError &&
+          variable.status.description) {
+        evaluatedExpressionResultMap.set(
+            variable.name,
+            this.createExceptionResult(
+                this.formatMessage(variable.status.description)));
+        return;
+      }
+      const propertyDescriptor = parseVariable(variable);
+      if (propertyDescriptor && propertyDescriptor.value) {
+        evaluatedExpressionResultMap.set(
+            variable.name, {result: propertyDescriptor.value});
+      }
+    });
+    this.evaluatedExpressionMap.set(
+        `${snapshot.id}-frame-0`, evaluatedExpressionResultMap);
+
+    const locationList = await Promise.all(snapshot.stackFrames.map(
+        (stackFrame: stackdriver.StackFrame) =>
+            this.stackdriverToDevToolsLocation(stackFrame.location)));
+    const callFrameList = snapshot.stackFrames.map(
+        (stackFrame: stackdriver.StackFrame,
+         index: number): Debugger.CallFrame => {
+          const scopeId = `${snapshot.id}-scope-${index}`;
+          const contextId = `${snapshot.id}-context-${index}`;
+          const argumentList = (stackFrame.arguments || []).slice();
+          const localList = (stackFrame.locals || []).slice();
+          let thisVariable =
+              takeThisVariable(argumentList) || takeThisVariable(localList);
+          // The Node.js agent appends the receiver to the locals instead,
+          // since it reports the variables of every scope as locals.
+          if (!thisVariable && localList.length > 0 &&
+              localList[localList.length - 1].name === 'context' &&
+              localList[localList.length - 1].varTableIndex) {
+            thisVariable = localList.pop();
+          }
+          const thisPropertyDescriptor =
+              thisVariable ? parseVariable(thisVariable) : null;
+          // The arguments are in the local scope, as in V8, and a local
+          // which the agent also reports as an argument is listed once.
+          const argumentNameSet = new Set(argumentList.map(
+              (variable: stackdriver.Variable) => variable.name));
+          this.propertyDescriptorListMap.set(
+              scopeId,
+              parseVariableList(argumentList.concat(localList.filter(
+                  (variable: stackdriver.Variable) =>
+                      !argumentNameSet.has(variable.name)))));
+          // No closure nor global scope is shown: Stackdriver frames only
+          // carry arguments and locals, and the Node.js agent reports the
+          // closure variables as locals and skips the global scope.
+          const scopeChain: Debugger.Scope[] = [{
+            type: 'local',
+            object: {type: 'object', objectId: scopeId},
+          }];
+          return {
+            callFrameId: `${snapshot.id}-frame-${index}`,
+            functionName: stackFrame.function,
+            location: locationList[index],
+            url: locationList[index].scriptId,
+            scopeChain,
+            this: thisPropertyDescriptor && thisPropertyDescriptor.value ||
+                {type: 'undefined'},
+          };
+        });
+    callFrameList.forEach(
+        (callFrame: Debugger.CallFrame) =>
+            this.callFrameMap.set(callFrame.callFrameId, callFrame));
+    this.pausedCallFrameId =
+        callFrameList.length > 0 ? callFrameList[0].callFrameId : undefined;
+    this.pausedSnapshotId = snapshot.id;
+    this.addLoadedSnapshot(snapshot.id);
     return {
       reason: 'other',
       hitBreakpoints: [snapshot.id],
-      callFrames: snapshot.stackFrames.map(
-          (stackFrame: stackdriver.StackFrame,
-           index: number): Debugger.CallFrame => {
-            const scopeId = `${snapshot.id}-scope-${index}`;
-            const contextId = `${snapshot.id}-context-${index}`;
-            const propertyList: Runtime.PropertyDescriptor[] = [];
-            let contextRemoteObject: Runtime.RemoteObject|undefined;
-            if (stackFrame.locals) {
-              if (stackFrame.locals.length > 0) {
-                const contextVariable =
-                    stackFrame.locals[stackFrame.locals.length - 1];
-                if (contextVariable.name === 'context' &&
-                    contextVariable.varTableIndex) {
-                  contextRemoteObject = varTableIndexToRemoteObjectMap.get(
-                      contextVariable.varTableIndex);
-                  stackFrame.locals.pop();
-                }
-              }
-              propertyList.push(...parseVariableList(stackFrame.locals));
-            }
-            if (stackFrame.arguments) {
-              throw new Error(
-                  'The following stack frame from Stackdriver Debug has ' +
-                  `arguments: ${util.inspect(stackFrame, {depth: null})}`);
-            }
-            this.propertyDescriptorListMap.set(scopeId, propertyList);
-            return {
-              callFrameId: `${snapshot.id}-frame-${index}`,
-              functionName: stackFrame.function,
-              location: {
-                scriptId: path.resolve(
-                    this.debugProxy.options.sourceDirectory,
-                    stackFrame.location.path),
-                lineNumber:
-                    this.stackdriverToDevToolsLine(stackFrame.location.line),
-              },
-              scopeChain: [{
-                type: 'local',
-                object: {type: 'object', objectId: scopeId},
-              }],
-              this: contextRemoteObject || {type: 'undefined'},
-            };
-          }),
+      callFrames: callFrameList,
     };
   }
 }
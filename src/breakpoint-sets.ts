@@ -0,0 +1,121 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as fs from 'fs';
+import * as util from 'util';
+
+import {RepeatOptions} from './repeat';
+
+const readFileP = util.promisify(fs.readFile);
+const writeFileP = util.promisify(fs.writeFile);
+
+type FilePath = string;
+
+// Version of the state file format, which is increased on incompatible
+// changes.
+export const BREAKPOINT_SET_STATE_VERSION = 1;
+
+// Service of debuggees which do not specify one, as in App Engine.
+const DEFAULT_SERVICE = 'default';
+
+/**
+ * A breakpoint request in a saved set, with how long the breakpoint keeps
+ * capturing snapshots if it is repeating. The options are not sent to
+ * Stackdriver Debug.
+ */
+export interface SavedBreakpoint extends stackdriver.BreakpointRequest {
+  repeatOptions?: RepeatOptions;
+}
+
+/**
+ * Named sets of breakpoints saved across restarts of the proxy. Debuggee IDs
+ * change on every deployment, so the sets are kept by project and service.
+ */
+export interface BreakpointSetState {
+  version: number;
+  // Breakpoint requests by debuggee key, e.g. `my-project/default`, and then
+  // by the name of the set.
+  breakpointSets: {[debuggeeKey: string]: {[name: string]: SavedBreakpoint[]}};
+}
+
+/**
+ * @param projectId - ID of the project in Google Cloud
+ * @param debuggee - debuggee, whose `module` label names its service
+ * @returns key under which the breakpoint sets of the debuggee are saved
+ */
+export function getDebuggeeKey(
+    projectId: string, debuggee: stackdriver.Debuggee): string {
+  const labels = debuggee.labels as {[label: string]: string};
+  return `${projectId}/${labels.module || DEFAULT_SERVICE}`;
+}
+
+/**
+ * @param breakpoint - breakpoint set in Stackdriver Debug
+ * @returns request which sets the same breakpoint again, on any debuggee
+ */
+export function toBreakpointRequest(breakpoint: stackdriver.Breakpoint):
+    stackdriver.BreakpointRequest {
+  const request: stackdriver.BreakpointRequest = {
+    action:
+        breakpoint.action as stackdriver.Action || stackdriver.Action.CAPTURE,
+    location: {path: breakpoint.location.path, line: breakpoint.location.line},
+  };
+  if (breakpoint.condition) {
+    request.condition = breakpoint.condition;
+  }
+  if (breakpoint.expressions && breakpoint.expressions.length > 0) {
+    request.expressions = breakpoint.expressions;
+  }
+  if (breakpoint.logMessageFormat) {
+    request.logMessageFormat = breakpoint.logMessageFormat;
+    request.logLevel = breakpoint.logLevel;
+  }
+  return request;
+}
+
+/**
+ * @param stateFile - path to the JSON file to read
+ * @returns state in the file, or an empty state if the file does not exist
+ */
+export async function readBreakpointSetState(stateFile: FilePath):
+    Promise<BreakpointSetState> {
+  let text: string;
+  try {
+    text = await readFileP(stateFile, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return {version: BREAKPOINT_SET_STATE_VERSION, breakpointSets: {}};
+    }
+    throw error;
+  }
+  const state: BreakpointSetState = JSON.parse(text);
+  if (state.version !== BREAKPOINT_SET_STATE_VERSION) {
+    throw new Error(
+        `The state file ${stateFile} has version ${state.version}, but ` +
+        `only version ${BREAKPOINT_SET_STATE_VERSION} is supported.`);
+  }
+  state.breakpointSets = state.breakpointSets || {};
+  return state;
+}
+
+/**
+ * @param stateFile - path to the JSON file to write
+ * @param state - state to write
+ */
+export async function writeBreakpointSetState(
+    stateFile: FilePath, state: BreakpointSetState) {
+  await writeFileP(stateFile, JSON.stringify(state, null, 2));
+}
@@ -0,0 +1,560 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {Runtime} from 'inspector';
+import * as ts from 'typescript';
+
+type Primitive = string|number|boolean|null|undefined;
+
+/**
+ * Data captured in a snapshot, over which expressions are evaluated.
+ */
+export interface EvaluationContext {
+  // Objects whose properties are the variables in scope, innermost first.
+  scopeObjectList: Runtime.RemoteObject[];
+  thisObject: Runtime.RemoteObject;
+  // Values bound by name before the scopes, e.g. function parameters.
+  bindingMap?: Map<string, Runtime.RemoteObject>;
+  /**
+   * @param objectId - ID of an object in the snapshot
+   * @returns the captured properties of the object, if it has any
+   */
+  getProperties(objectId: Runtime.RemoteObjectId):
+      Runtime.PropertyDescriptor[]|undefined;
+}
+
+/**
+ * An error for an expression which cannot be evaluated over a snapshot,
+ * which is shown to the user as an exception in the console.
+ */
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+/*
+ * @param value - primitive value computed from the snapshot
+ * @returns remote object representing the value
+ */
+function fromPrimitive(value: Primitive): Runtime.RemoteObject {
+  if (value === undefined) {
+    return {type: 'undefined'};
+  }
+  if (value === null) {
+    return {type: 'object', subtype: 'null', value: null};
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || Object.is(value, -0)) {
+      const unserializableValue = Object.is(value, -0) ? '-0' : String(value);
+      return {
+        type: 'number',
+        description: unserializableValue,
+        unserializableValue,
+      };
+    }
+    return {type: 'number', description: String(value), value};
+  }
+  return {type: typeof value, value};
+}
+
+/*
+ * @param callArgument - argument of `Runtime.callFunctionOn`
+ * @returns remote object representing the argument
+ */
+function fromCallArgument(callArgument: Runtime.CallArgument):
+    Runtime.RemoteObject {
+  if (callArgument.objectId) {
+    return {type: 'object', objectId: callArgument.objectId};
+  }
+  if (callArgument.unserializableValue) {
+    return fromPrimitive(Number(callArgument.unserializableValue));
+  }
+  return fromPrimitive(callArgument.value);
+}
+
+/*
+ * @param remoteObject - value from the snapshot
+ * @returns the primitive value, which must not be an object
+ */
+function toPrimitive(remoteObject: Runtime.RemoteObject): Primitive {
+  switch (remoteObject.type) {
+    case 'undefined':
+      return undefined;
+    case 'boolean':
+    case 'string':
+      return remoteObject.value;
+    case 'number':
+      return remoteObject.unserializableValue !== undefined ?
+          Number(remoteObject.unserializableValue) :
+          remoteObject.value;
+    case 'object':
+      if (remoteObject.subtype === 'null') {
+        return null;
+      }
+      break;
+    default:
+      break;
+  }
+  throw new EvaluationError(
+      `${remoteObject.description || remoteObject.type} cannot be used ` +
+      'as a primitive value in a snapshot.');
+}
+
+/*
+ * @returns true if the value is an object, including functions
+ */
+function isObject(remoteObject: Runtime.RemoteObject): boolean {
+  return remoteObject.type === 'function' ||
+      (remoteObject.type === 'object' && remoteObject.subtype !== 'null');
+}
+
+/*
+ * @returns the value converted to a boolean, as in a condition
+ */
+function isTruthy(remoteObject: Runtime.RemoteObject): boolean {
+  return isObject(remoteObject) || Boolean(toPrimitive(remoteObject));
+}
+
+/*
+ * @returns true if both values are the same, as with `===`
+ */
+function isStrictlyEqual(
+    a: Runtime.RemoteObject, b: Runtime.RemoteObject): boolean {
+  if (isObject(a) || isObject(b)) {
+    return a.objectId !== undefined && a.objectId === b.objectId;
+  }
+  return toPrimitive(a) === toPrimitive(b);
+}
+
+/*
+ * @returns true if both values are equal, as with `==`
+ */
+function isLooselyEqual(a: Primitive, b: Primitive): boolean {
+  if (typeof a === typeof b) {
+    return a === b;
+  }
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a === null || a === undefined) && (b === null || b === undefined);
+  }
+  // Strings, numbers and booleans which differ in type compare as numbers.
+  return Number(a) === Number(b);
+}
+
+/*
+ * @returns a negative number if the first value is less than the second, a
+ * positive number if it is greater, 0 if they are equal, or NaN if they do
+ * not compare, as with the relational operators
+ */
+function compare(a: Primitive, b: Primitive): number {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  const x = Number(a);
+  const y = Number(b);
+  return x < y ? -1 : x > y ? 1 : x === y ? 0 : NaN;
+}
+
+/*
+ * @returns the size in the description of a collection, e.g. 2 in `Map(2)`
+ */
+function getDescribedSize(remoteObject: Runtime.RemoteObject): number|
+    undefined {
+  const match = /\((\d+)\)$/.exec(remoteObject.description || '');
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Evaluates side-effect-free expressions over the data in a snapshot,
+ * e.g. `user.name + ' ' + items.length`, without running any code.
+ */
+class Evaluator {
+  constructor(
+      private readonly context: EvaluationContext,
+      private readonly sourceFile: ts.SourceFile) {}
+
+  evaluate(node: ts.Expression): Runtime.RemoteObject {
+    if (ts.isParenthesizedExpression(node)) {
+      return this.evaluate(node.expression);
+    }
+    if (ts.isNumericLiteral(node)) {
+      return fromPrimitive(Number(node.text));
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return fromPrimitive(node.text);
+    }
+    if (ts.isIdentifier(node)) {
+      return this.lookUp(node.text);
+    }
+    if (ts.isPropertyAccessExpression(node)) {
+      return this.getProperty(this.evaluate(node.expression), node.name.text);
+    }
+    if (ts.isElementAccessExpression(node)) {
+      const object = this.evaluate(node.expression);
+      const key = toPrimitive(this.evaluate(node.argumentExpression));
+      return this.getProperty(object, String(key));
+    }
+    if (ts.isTypeOfExpression(node)) {
+      return fromPrimitive(this.evaluate(node.expression).type);
+    }
+    if (ts.isPrefixUnaryExpression(node)) {
+      return this.evaluatePrefixUnary(node);
+    }
+    if (ts.isBinaryExpression(node)) {
+      return this.evaluateBinary(node);
+    }
+    if (ts.isConditionalExpression(node)) {
+      return isTruthy(this.evaluate(node.condition)) ?
+          this.evaluate(node.whenTrue) :
+          this.evaluate(node.whenFalse);
+    }
+    if (ts.isCallExpression(node)) {
+      return this.evaluateCall(node);
+    }
+    switch (node.kind) {
+      case ts.SyntaxKind.TrueKeyword:
+        return fromPrimitive(true);
+      case ts.SyntaxKind.FalseKeyword:
+        return fromPrimitive(false);
+      case ts.SyntaxKind.NullKeyword:
+        return fromPrimitive(null);
+      case ts.SyntaxKind.ThisKeyword:
+        return this.context.thisObject;
+      default:
+        throw this.createUnsupportedError(node);
+    }
+  }
+
+  private createUnsupportedError(node: ts.Node): EvaluationError {
+    return new EvaluationError(
+        `\`${node.getText(this.sourceFile)}\` cannot be evaluated over ` +
+        'a snapshot, which only supports side-effect-free expressions.');
+  }
+
+  private lookUp(name: string): Runtime.RemoteObject {
+    const bindingMap = this.context.bindingMap;
+    if (bindingMap && bindingMap.has(name)) {
+      return bindingMap.get(name)!;
+    }
+    for (const scopeObject of this.context.scopeObjectList) {
+      const propertyList = scopeObject.objectId &&
+          this.context.getProperties(scopeObject.objectId);
+      const property = propertyList &&
+          propertyList.find(
+              (property: Runtime.PropertyDescriptor) => property.name === name);
+      if (property && property.value) {
+        return property.value;
+      }
+    }
+    switch (name) {
+      case 'undefined':
+        return fromPrimitive(undefined);
+      case 'NaN':
+        return fromPrimitive(NaN);
+      case 'Infinity':
+        return fromPrimitive(Infinity);
+      default:
+        throw new EvaluationError(
+            `\`${name}\` was not captured in the scopes of this snapshot.`);
+    }
+  }
+
+  private getProperty(object: Runtime.RemoteObject, key: string):
+      Runtime.RemoteObject {
+    if (!isObject(object)) {
+      const value = toPrimitive(object);
+      if (value === null || value === undefined) {
+        throw new EvaluationError(
+            `TypeError: Cannot read property '${key}' of ${value}`);
+      }
+      if (typeof value === 'string' && key === 'length') {
+        return fromPrimitive(value.length);
+      }
+      if (typeof value === 'string' && /^\d+$/.test(key)) {
+        return fromPrimitive(value[Number(key)]);
+      }
+      throw new EvaluationError(
+          `The property \`${key}\` of a ${typeof value} value cannot be ` +
+          'read in a snapshot.');
+    }
+    const propertyList =
+        object.objectId && this.context.getProperties(object.objectId);
+    const property = propertyList &&
+        propertyList.find(
+            (property: Runtime.PropertyDescriptor) => property.name === key);
+    if (property && property.value) {
+      return property.value;
+    }
+    // Collections report their sizes in their descriptions, e.g. `Map(2)`.
+    const isIndexed =
+        object.subtype === 'array' || object.subtype === 'typedarray';
+    const isKeyed = object.subtype === 'map' || object.subtype === 'set';
+    const size = getDescribedSize(object);
+    if (size !== undefined &&
+        ((isIndexed && key === 'length') || (isKeyed && key === 'size'))) {
+      return fromPrimitive(size);
+    }
+    throw new EvaluationError(
+        `The property \`${key}\` of ${object.description || 'the object'} ` +
+        'was not captured in this snapshot.');
+  }
+
+  private evaluatePrefixUnary(node: ts.PrefixUnaryExpression):
+      Runtime.RemoteObject {
+    const operand = this.evaluate(node.operand);
+    switch (node.operator) {
+      case ts.SyntaxKind.ExclamationToken:
+        return fromPrimitive(!isTruthy(operand));
+      case ts.SyntaxKind.MinusToken:
+        return fromPrimitive(-Number(toPrimitive(operand)));
+      case ts.SyntaxKind.PlusToken:
+        return fromPrimitive(Number(toPrimitive(operand)));
+      default:
+        throw this.createUnsupportedError(node);
+    }
+  }
+
+  private evaluateBinary(node: ts.BinaryExpression): Runtime.RemoteObject {
+    const operator = node.operatorToken.kind;
+    const left = this.evaluate(node.left);
+    // Logical operators only evaluate their right operands when needed.
+    if (operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+      return isTruthy(left) ? this.evaluate(node.right) : left;
+    }
+    if (operator === ts.SyntaxKind.BarBarToken) {
+      return isTruthy(left) ? left : this.evaluate(node.right);
+    }
+    const right = this.evaluate(node.right);
+    switch (operator) {
+      case ts.SyntaxKind.EqualsEqualsEqualsToken:
+        return fromPrimitive(isStrictlyEqual(left, right));
+      case ts.SyntaxKind.ExclamationEqualsEqualsToken:
+        return fromPrimitive(!isStrictlyEqual(left, right));
+      default:
+        break;
+    }
+    const a = toPrimitive(left);
+    const b = toPrimitive(right);
+    switch (operator) {
+      case ts.SyntaxKind.EqualsEqualsToken:
+        return fromPrimitive(isLooselyEqual(a, b));
+      case ts.SyntaxKind.ExclamationEqualsToken:
+        return fromPrimitive(!isLooselyEqual(a, b));
+      case ts.SyntaxKind.LessThanToken:
+        return fromPrimitive(compare(a, b) < 0);
+      case ts.SyntaxKind.LessThanEqualsToken:
+        return fromPrimitive(compare(a, b) <= 0);
+      case ts.SyntaxKind.GreaterThanToken:
+        return fromPrimitive(compare(a, b) > 0);
+      case ts.SyntaxKind.GreaterThanEqualsToken:
+        return fromPrimitive(compare(a, b) >= 0);
+      case ts.SyntaxKind.PlusToken:
+        // Either string operand makes `+` concatenate.
+        return fromPrimitive(
+            typeof a === 'string' || typeof b === 'string' ?
+                String(a) + String(b) :
+                Number(a) + Number(b));
+      case ts.SyntaxKind.MinusToken:
+        return fromPrimitive(Number(a) - Number(b));
+      case ts.SyntaxKind.AsteriskToken:
+        return fromPrimitive(Number(a) * Number(b));
+      case ts.SyntaxKind.SlashToken:
+        return fromPrimitive(Number(a) / Number(b));
+      case ts.SyntaxKind.PercentToken:
+        return fromPrimitive(Number(a) % Number(b));
+      case ts.SyntaxKind.AsteriskAsteriskToken:
+        return fromPrimitive(Number(a) ** Number(b));
+      default:
+        throw this.createUnsupportedError(node);
+    }
+  }
+
+  private evaluateCall(node: ts.CallExpression): Runtime.RemoteObject {
+    const callee = node.expression;
+    if (!ts.isPropertyAccessExpression(callee) ||
+        !ts.isIdentifier(callee.expression) ||
+        callee.expression.text !== 'JSON' || callee.name.text !== 'stringify' ||
+        node.arguments.length !== 1) {
+      throw new EvaluationError(
+          'Only `JSON.stringify(value)` can be called in a snapshot, ' +
+          `not \`${node.getText(this.sourceFile)}\`.`);
+    }
+    return fromPrimitive(
+        this.stringify(this.evaluate(node.arguments[0]), new Set()));
+  }
+
+  /*
+   * @param remoteObject - value to serialize, as `JSON.stringify` does
+   * @param ancestorIdSet - IDs of the objects which contain the value
+   * @returns JSON text, or undefined if the value is not serializable
+   */
+  private stringify(
+      remoteObject: Runtime.RemoteObject,
+      ancestorIdSet: Set<Runtime.RemoteObjectId>): string|undefined {
+    if (remoteObject.type === 'function' || remoteObject.type === 'symbol') {
+      return undefined;
+    }
+    if (!isObject(remoteObject)) {
+      return JSON.stringify(toPrimitive(remoteObject));
+    }
+    if (remoteObject.subtype === 'date') {
+      return JSON.stringify(new Date(remoteObject.description!).toISOString());
+    }
+    const objectId = remoteObject.objectId;
+    const propertyList = objectId && this.context.getProperties(objectId);
+    if (!objectId || !propertyList) {
+      throw new EvaluationError(
+          `The properties of ${remoteObject.description || 'an object'} ` +
+          'were not captured in this snapshot.');
+    }
+    if (ancestorIdSet.has(objectId)) {
+      throw new EvaluationError(
+          'TypeError: Converting circular structure to JSON');
+    }
+    ancestorIdSet.add(objectId);
+    let json: string;
+    if (remoteObject.subtype === 'array') {
+      const length = toPrimitive(this.getProperty(remoteObject, 'length'));
+      const elementList: string[] = [];
+      for (let index = 0; index < Number(length); index++) {
+        const element = this.getProperty(remoteObject, String(index));
+        elementList.push(this.stringify(element, ancestorIdSet) || 'null');
+      }
+      json = `[${elementList.join(',')}]`;
+    } else {
+      const memberList: string[] = [];
+      for (const property of propertyList) {
+        const value =
+            property.value && this.stringify(property.value, ancestorIdSet);
+        if (value !== undefined) {
+          memberList.push(`${JSON.stringify(property.name)}:${value}`);
+        }
+      }
+      json = `{${memberList.join(',')}}`;
+    }
+    ancestorIdSet.delete(objectId);
+    return json;
+  }
+}
+
+/*
+ * The parser recovers from syntax errors, e.g. in `a +`, which only its
+ * diagnostics report.
+ *
+ * @param text - source text of JavaScript
+ * @returns whether the text does not parse
+ */
+function hasSyntaxError(text: string): boolean {
+  const {diagnostics} = ts.transpileModule(text, {
+    fileName: 'expression.js',
+    reportDiagnostics: true,
+    compilerOptions: {target: ts.ScriptTarget.Latest},
+  });
+  return diagnostics !== undefined && diagnostics.length > 0;
+}
+
+/*
+ * @param text - source text of an expression or a function
+ * @returns the parsed expression, which must be the only statement
+ */
+function parseExpression(text: string):
+    {expression: ts.Expression|undefined; sourceFile: ts.SourceFile;} {
+  const sourceFile = ts.createSourceFile(
+      'expression.js', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+  const statementList = sourceFile.statements;
+  if (statementList.length === 0) {
+    return {expression: undefined, sourceFile};
+  }
+  const statement = statementList[0];
+  if (statementList.length > 1 || !ts.isExpressionStatement(statement) ||
+      hasSyntaxError(text)) {
+    throw new EvaluationError(
+        `\`${text}\` is not a single expression, which is all that can be ` +
+        'evaluated over a snapshot.');
+  }
+  return {expression: statement.expression, sourceFile};
+}
+
+/**
+ * Evaluates an expression over the data captured in a snapshot.
+ *
+ * @param text - expression entered by the user, e.g. in the console
+ * @param context - scopes and objects of the snapshot
+ * @returns value of the expression
+ * @throws EvaluationError if the expression is not supported, or if it needs
+ * data which was not captured
+ */
+export function evaluateExpression(
+    text: string, context: EvaluationContext): Runtime.RemoteObject {
+  const {expression, sourceFile} = parseExpression(text);
+  return expression ? new Evaluator(context, sourceFile).evaluate(expression) :
+                      fromPrimitive(undefined);
+}
+
+/**
+ * Calls a function on an object in a snapshot, as `Runtime.callFunctionOn`
+ * does, where the function must return a single supported expression,
+ * e.g. `function(key) { return this[key]; }`.
+ *
+ * @param functionDeclaration - source text of the function
+ * @param thisObject - object on which the function is called
+ * @param callArgumentList - arguments passed to the function
+ * @param context - objects of the snapshot, without any scopes, since the
+ * function is declared in the global scope
+ * @returns value returned by the function
+ * @throws EvaluationError if the function is not supported, or if it needs
+ * data which was not captured
+ */
+export function callFunction(
+    functionDeclaration: string, thisObject: Runtime.RemoteObject,
+    callArgumentList: Runtime.CallArgument[],
+    context: EvaluationContext): Runtime.RemoteObject {
+  const {expression, sourceFile} = parseExpression(`(${functionDeclaration})`);
+  const declaration = expression && ts.isParenthesizedExpression(expression) ?
+      expression.expression :
+      undefined;
+  let body: ts.Expression|undefined;
+  if (declaration &&
+      (ts.isFunctionExpression(declaration) ||
+       ts.isArrowFunction(declaration))) {
+    if (ts.isBlock(declaration.body)) {
+      const statementList = declaration.body.statements;
+      if (statementList.length === 1 &&
+          ts.isReturnStatement(statementList[0])) {
+        body = (statementList[0] as ts.ReturnStatement).expression;
+      }
+    } else {
+      body = declaration.body;
+    }
+  }
+  if (!declaration || !body) {
+    throw new EvaluationError(
+        'Only functions which return a single expression can be called ' +
+        'on an object in a snapshot.');
+  }
+  const bindingMap = new Map<string, Runtime.RemoteObject>();
+  (declaration as ts.FunctionExpression | ts.ArrowFunction)
+      .parameters.forEach(
+          (parameter: ts.ParameterDeclaration, index: number) => {
+            bindingMap.set(
+                parameter.name.getText(sourceFile),
+                callArgumentList[index] ?
+                    fromCallArgument(callArgumentList[index]) :
+                    fromPrimitive(undefined));
+          });
+  return new Evaluator({...context, thisObject, bindingMap}, sourceFile)
+      .evaluate(body);
+}
@@ -15,8 +15,56 @@
  */
 import * as http from 'http';
 import * as path from 'path';
+import * as url from 'url';
+import * as uuidv5 from 'uuid/v5';
 import {loggers} from 'winston';
+import {SUPPORTED_DOMAIN_LIST, SupportedDomain} from './adapter';
 
+const pkg = require('../../package.json');
+
+// Version of the DevTools protocol from which the supported methods are taken.
+const PROTOCOL_VERSION = {
+  major: '1',
+  minor: '3'
+};
+
+/*
+ * @returns the supported part of the protocol, in the format of the
+ * `/json/protocol` endpoint of Chrome
+ */
+function createProtocolSchema(): {} {
+  return {
+    version: PROTOCOL_VERSION,
+    domains: SUPPORTED_DOMAIN_LIST.map((supportedDomain: SupportedDomain) => {
+      const commands =
+          supportedDomain.methodList.map((name: string) => ({name}));
+      const events = supportedDomain.eventList.map(
+          (event: string) => ({name: event.split('.', 2)[1]}));
+      return {domain: supportedDomain.domain, commands, events};
+    }),
+  };
+}
+
+/*
+ * @param response - response to an HTTP request
+ * @param body - object to send as JSON
+ */
+function sendJson(response: http.ServerResponse, body: {}) {
+  const responseBody = JSON.stringify(body);
+  response.writeHead(200, {
+    'Content-Type': 'application/json; charset=UTF-8',
+    'Content-Length': Buffer.byteLength(responseBody),
+  });
+  response.end(responseBody);
+}
+
+/**
+ * Serves the endpoints with which Chrome DevTools and other clients of the
+ * DevTools protocol discover the proxy, e.g. on chrome://inspect.
+ *
+ * @param portNumber - port on localhost to which DevTools connects
+ * @returns HTTP server, to which the WebSocket server is attached
+ */
 export function serveHttp(portNumber: number): http.Server {
   // TODO: get() does not exist yet, will be resolved in Winston 3.1
   // https://github.com/winstonjs/winston/issues/1361
@@ -29,32 +77,49 @@ export function serveHttp(portNumber: number): http.Server {
 
   const frontendUrl = 'chrome-devtools://devtools/' +
       `bundled/inspector.html?ws=localhost:${portNumber}`;
+  const webSocketDebuggerUrl = `ws://localhost:${portNumber}`;
+  // Stays the same across restarts of the proxy, so that clients reconnect to
+  // the target which they knew.
+  const targetId = uuidv5(webSocketDebuggerUrl, uuidv5.URL);
   const server = http.createServer(
       (request: http.IncomingMessage, response: http.ServerResponse) => {
-        let responseBody: string;
-        if (request.url === '/json') {
-          responseBody = JSON.stringify([{
-            description:
-                'Node.js proxy between Chrome DevTools and Stackdriver Debug',
-            devtoolsFrontendUrl: frontendUrl,
-            faviconUrl: 'https://cloud.google.com/images/gcp-favicon.ico',
-            title: `cloud-debug-proxy-devtools[${process.pid}]`,
-            type: 'node',
-            webSocketDebuggerUrl: `ws://localhost:${portNumber}`,
-          }]);
-          response.writeHead(200, {
-            'Content-Type': 'application/json; charset=UTF-8',
-            'Content-Length': Buffer.byteLength(responseBody),
-          });
-        } else {
-          responseBody = '404 Not Found';
-          response.writeHead(404, {
-            'Content-Type': 'text/plain; charset=UTF-8',
-            'Content-Length': Buffer.byteLength(responseBody),
-          });
+        // Clients may add a query or a trailing slash, e.g. `/json/list?t=1`.
+        const pathname = url.parse(request.url || '').pathname || '';
+        switch (pathname.replace(/\/+$/, '')) {
+          case '/json':
+          case '/json/list':
+            sendJson(response, [
+              {
+                description:
+                    'Node.js proxy between Chrome DevTools and Stackdriver Debug',
+                devtoolsFrontendUrl: frontendUrl,
+                faviconUrl: 'https://cloud.google.com/images/gcp-favicon.ico',
+                id: targetId,
+                title: `cloud-debug-proxy-devtools[${process.pid}]`,
+                type: 'node',
+                url: 'https://console.cloud.google.com/debug',
+                webSocketDebuggerUrl,
+              }
+            ]);
+            break;
+          case '/json/version':
+            sendJson(response, {
+              'Browser': `cloud-debug-proxy-devtools/v${pkg.version}`,
+              'Protocol-Version':
+                  `${PROTOCOL_VERSION.major}.${PROTOCOL_VERSION.minor}`,
+            });
+            break;
+          case '/json/protocol':
+            sendJson(response, createProtocolSchema());
+            break;
+          default:
+            const responseBody = '404 Not Found';
+            response.writeHead(404, {
+              'Content-Type': 'text/plain; charset=UTF-8',
+              'Content-Length': Buffer.byteLength(responseBody),
+            });
+            response.end(responseBody);
         }
-        response.write(responseBody);
-        response.end();
       });
   server.on('error', (error: NodeJS.ErrnoException) => {
     switch (error.code) {
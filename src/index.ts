@@ -16,21 +16,32 @@
  */
 import 'hard-rejection/register';
 import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as fs from 'fs';
 import * as http from 'http';
 import * as inquirer from 'inquirer';
 import * as meow from 'meow';
 import * as updateNotifier from 'update-notifier';
+import * as util from 'util';
 import * as uuidv4 from 'uuid/v4';
 import * as winston from 'winston';
 import {Adapter} from './adapter';
+import {getDebuggeeKey} from './breakpoint-sets';
+import {PathMappingOptions, readPathMappingFile} from './path-mapping';
+import {LogReader} from './log-reader';
 import {setupLogger} from './logger';
 import {serveHttp} from './http-server';
+import {SessionManager} from './session';
+import {parseSavedBreakpoint, REPLAY_DEBUGGEE_ID, ReplayDebugProxy} from './replay';
+import {readSnapshotArchive} from './snapshot-archive';
+import {diffSnapshots, formatSnapshotDiff} from './snapshot-diff';
 import {serveDevTools, serveExtension} from './websocket-server';
 
 export {Adapter} from './adapter';
 
 const pkg = require('../../package.json');
 
+const readFileP = util.promisify(fs.readFile);
+
 const DEFAULT_SOURCE_DIRECTORY = './';
 const DEFAULT_PORT_DEVTOOLS = '9229';
 const DEFAULT_PORT_EXTENSION = '9230';
@@ -38,6 +49,7 @@ const MINIMUM_PORT = 0;
 const MAXIMUM_PORT = 65535;
 const DEFAULT_LOGFILE = 'cloud-debug-proxy-devtools.log';
 const DEFAULT_LOGLEVEL = 'info';
+const DEFAULT_STATEFILE = 'cloud-debug-proxy-devtools-state.json';
 
 const cli = meow(
     `
@@ -52,6 +64,24 @@ const cli = meow(
     --dport       WebSocket port to connect the proxy to Chrome DevTools.
     --eport       WebSocket port to connect the proxy to the Chrome extension.
     --debuggee    The debuggee ID in Google Cloud Platform.
+    --pathmap     An optional JSON file with path mapping rules, such as
+                  {"prefixes": {"services/api": ""}, "strip": 0}.
+    --prefix      Comma-separated local=deployed path prefix rewrites, with
+                  local prefixes relative to the source directory.
+    --strip       Leading components to strip from deployed source paths.
+    --maxsnaps    Maximum number of loaded snapshots to keep in memory.
+    --maxmemory   Approximate memory for loaded snapshots, in megabytes.
+    --archivedir  An optional directory to write an archive of every snapshot
+                  captured in this session to.
+    --import      An optional snapshot archive to load once DevTools connects.
+    --replay      Serve the breakpoints saved as JSON files in this directory,
+                  such as snapshot archives, without connecting to Google Cloud.
+    --diff        Two comma-separated saved snapshot files to compare, which
+                  prints the differences of their variables and exits.
+    --diffformat  Format of the --diff report. Must be one of: 'text', 'json'.
+    --statefile   An optional file to save named breakpoint sets to, by
+                  project and service.
+    --applyset    The name of a saved breakpoint set to set on startup.
     --logfile     An optional file to append logging output to.
     --loglevel    The minimum severity to be logged. Must be one of:
                   'error', 'warn', 'info', 'verbose', 'debug', 'silly'.
@@ -65,6 +95,18 @@ const cli = meow(
 
     $ cloud-debug-nodejs-devtools --default --dport=9229 --eport=9230 \\
     >   --debuggee=gcp:51384539673:e75dfe61457b23bc
+
+    $ cloud-debug-nodejs-devtools --default --source=~/projects/monorepo \\
+    >   --prefix=services/api=
+
+    $ cloud-debug-nodejs-devtools --default --applyset=checkout-bug \\
+    >   --statefile=~/investigations.json
+
+    $ cloud-debug-nodejs-devtools --replay=~/snapshots \\
+    >   --source=~/projects/awesome_google_cloud_app
+
+    $ cloud-debug-nodejs-devtools --diffformat=json \\
+    >   --diff=~/snapshots/first.json,~/snapshots/second.json
 `,
     {
       flags: {
@@ -75,6 +117,18 @@ const cli = meow(
         dport: {type: 'string'},
         eport: {type: 'string'},
         debuggee: {type: 'string'},
+        pathmap: {type: 'string'},
+        prefix: {type: 'string'},
+        strip: {type: 'string'},
+        maxsnaps: {type: 'string'},
+        maxmemory: {type: 'string'},
+        archivedir: {type: 'string'},
+        import: {type: 'string'},
+        replay: {type: 'string'},
+        diff: {type: 'string'},
+        diffformat: {type: 'string'},
+        statefile: {type: 'string'},
+        applyset: {type: 'string'},
         logfile: {type: 'string'},
         loglevel: {type: 'string'},
       },
@@ -108,41 +162,70 @@ async function promptForPort(
   return Number(answers.port);
 }
 
-async function main(logger: winston.Logger) {
-  updateNotifier({pkg}).notify();
-
-  let devtoolsPortNumber: number;
-  let extensionPortNumber: number;
-  let sourceDirectory: string;
-
-  if ((cli.flags.keyfile && cli.flags.project) ||
-      cli.flags.default && (cli.flags.keyfile || cli.flags.project)) {
-    logger.error({
-      origin: 'devtools-main',
-      message: 'You can specify at most one of keyfile, project, and default.',
-    });
-    process.exit(1);
+/*
+ * Combines the path mapping rules in the `--pathmap` file with those given
+ * by the `--prefix` and `--strip` flags, which take precedence.
+ */
+async function getPathMappingOptions(): Promise<PathMappingOptions> {
+  const options: PathMappingOptions =
+      cli.flags.pathmap ? await readPathMappingFile(cli.flags.pathmap) : {};
+  if (cli.flags.prefix) {
+    options.prefixes = options.prefixes || {};
+    for (const rule of cli.flags.prefix.split(',')) {
+      const separatorIndex = rule.indexOf('=');
+      if (separatorIndex < 0) {
+        throw new Error(
+            `The path prefix rule '${rule}' should have the form ` +
+            'local=deployed.');
+      }
+      options.prefixes[rule.substring(0, separatorIndex)] =
+          rule.substring(separatorIndex + 1);
+    }
+  }
+  if (cli.flags.strip) {
+    const strip = Number(cli.flags.strip);
+    if (!Number.isInteger(strip) || strip < 0) {
+      throw new Error('The --strip flag should be a non-negative integer.');
+    }
+    options.strip = strip;
   }
+  return options;
+}
 
-  if (cli.flags.source) {
-    sourceDirectory = cli.flags.source;
-  } else {
-    const answers = await inquirer.prompt({
-      type: 'input',
-      name: 'source',
-      message: 'Path to root source directory:',
-      default: cli.flags.source || DEFAULT_SOURCE_DIRECTORY,
-      validate: (source: string): true | string => {
-        if (source.trim()) {
-          return true;
-        } else {
-          return 'Please enter a valid path.';
-        }
-      },
-    } as inquirer.Question);
-    sourceDirectory = answers.source.trim();
+/*
+ * @param flagName - name of a flag which is optional
+ * @returns the positive integer given by the flag, or undefined if not given
+ */
+function getPositiveIntegerFlag(flagName: string): number|undefined {
+  const flagValue = cli.flags[flagName];
+  if (!flagValue) {
+    return undefined;
+  }
+  const value = Number(flagValue);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`The --${flagName} flag should be a positive integer.`);
   }
+  return value;
+}
 
+/*
+ * Proxy to Stackdriver Debug for one debuggee, with the key under which the
+ * breakpoint sets of the debuggee are saved.
+ */
+interface ConnectedDebugProxy {
+  debugProxy: stackdriver.DebugProxy|ReplayDebugProxy;
+  debuggeeId: stackdriver.DebuggeeId;
+  debuggeeKey: string;
+  logReader?: LogReader;
+}
+
+/*
+ * Sets up the proxy to Stackdriver Debug with the credentials and the
+ * debuggee given by the flags, or else by the answers to prompts.
+ */
+async function connectDebugProxy(
+    logger: winston.Logger,
+    sourceDirectory: string): Promise<ConnectedDebugProxy> {
   logger.info({
     origin: 'devtools-main',
     message: 'Initializing Stackdriver Debugger proxy...',
@@ -151,10 +234,12 @@ async function main(logger: winston.Logger) {
       new stackdriver.DebugProxy({debuggerId: uuidv4(), sourceDirectory});
 
   // TODO: Determine keyfiles from project ID
+  let keyFilename: string|undefined;
   if (cli.flags.default) {
     await debugProxy.setProjectByKeyFile();
   } else if (cli.flags.keyfile) {
-    await debugProxy.setProjectByKeyFile(cli.flags.keyfile);
+    keyFilename = cli.flags.keyfile;
+    await debugProxy.setProjectByKeyFile(keyFilename);
   } else {
     const answers = await inquirer.prompt({
       type: 'input',
@@ -167,34 +252,8 @@ async function main(logger: winston.Logger) {
           `Using ${answers.keyfile.trim()}...` :
           `Using ${process.env.GOOGLE_APPLICATION_CREDENTIALS}...`,
     });
-    await debugProxy.setProjectByKeyFile(answers.keyfile.trim());
-  }
-
-  // These casts with `Number` were already validated with `validatePort`.
-  if (validatePort(cli.flags.dport)) {
-    devtoolsPortNumber = Number(cli.flags.dport);
-  } else {
-    devtoolsPortNumber = await promptForPort(
-        'WebSocket port to connect the proxy to Chrome DevTools:',
-        DEFAULT_PORT_DEVTOOLS);
-  }
-
-  if (validatePort(cli.flags.eport) &&
-      Number(cli.flags.eport) !== devtoolsPortNumber) {
-    extensionPortNumber = Number(cli.flags.eport);
-  } else {
-    extensionPortNumber = await promptForPort(
-        'WebSocket port to connect the proxy to the extension:',
-        DEFAULT_PORT_EXTENSION);
-    while (extensionPortNumber === devtoolsPortNumber) {
-      logger.info({
-        origin: 'devtools-main',
-        message: `Please choose any port other than ${devtoolsPortNumber}.`,
-      });
-      extensionPortNumber = await promptForPort(
-          'WebSocket port to connect the proxy to the extension:',
-          DEFAULT_PORT_EXTENSION);
-    }
+    keyFilename = answers.keyfile.trim();
+    await debugProxy.setProjectByKeyFile(keyFilename);
   }
 
   logger.info({
@@ -212,10 +271,11 @@ async function main(logger: winston.Logger) {
   }
 
   // Set the debuggee using the given `cli.flags.debuggee` if possible.
+  let debuggeeId: stackdriver.DebuggeeId;
   if (debuggeesList.some(
           (debuggee: stackdriver.Debuggee) =>
               debuggee.id === cli.flags.debuggee)) {
-    debugProxy.setDebuggeeId(cli.flags.debuggee);
+    debuggeeId = cli.flags.debuggee;
   } else {
     if (cli.flags.debuggee) {
       logger.error({
@@ -237,13 +297,164 @@ async function main(logger: winston.Logger) {
       origin: 'devtools-main',
       message: `Using debuggee with id: ${answers.debuggee.trim()}`,
     });
-    debugProxy.setDebuggeeId(answers.debuggee.trim());
+    debuggeeId = answers.debuggee.trim();
   }
+  debugProxy.setDebuggeeId(debuggeeId);
+  const selectedDebuggee = debuggeesList.find(
+      (debuggee: stackdriver.Debuggee) => debuggee.id === debuggeeId)!;
+  return {
+    debugProxy,
+    debuggeeId,
+    debuggeeKey: getDebuggeeKey(debugProxy.getProjectId(), selectedDebuggee),
+    // Logpoints write their output to the application logs of the project.
+    logReader: await LogReader.create(debugProxy.getProjectId(), keyFilename),
+  };
+}
 
-  const adapter = new Adapter(debugProxy);
+/*
+ * Sets up a stand-in for the proxy to Stackdriver Debug, which serves the
+ * breakpoints saved in the `--replay` directory.
+ */
+async function createReplayDebugProxy(
+    logger: winston.Logger,
+    sourceDirectory: string): Promise<ConnectedDebugProxy> {
+  const debugProxy = new ReplayDebugProxy(
+      {debuggerId: uuidv4(), sourceDirectory}, cli.flags.replay);
+  const breakpointCount = await debugProxy.load();
+  logger.info({
+    origin: 'devtools-main',
+    message: `Replaying ${breakpointCount} saved breakpoints from ` +
+        `${cli.flags.replay}...`,
+  });
+  const [debuggee] = await debugProxy.getDebuggees();
+  return {
+    debugProxy,
+    debuggeeId: REPLAY_DEBUGGEE_ID,
+    debuggeeKey: getDebuggeeKey(debugProxy.getProjectId(), debuggee),
+  };
+}
+
+/*
+ * Prints the differences between the two snapshot files in the `--diff` flag,
+ * in the format given by the `--diffformat` flag.
+ */
+async function printSnapshotDiff() {
+  const fileList: string[] = cli.flags.diff.split(',');
+  const format = cli.flags.diffformat || 'text';
+  if (fileList.length !== 2) {
+    throw new Error('The --diff flag should name exactly two snapshot files.');
+  }
+  if (format !== 'text' && format !== 'json') {
+    throw new Error('The --diffformat flag should be either text or json.');
+  }
+  const [before, after] =
+      await Promise.all(fileList.map(async (file: string) => {
+        const snapshot = parseSavedBreakpoint(await readFileP(file, 'utf8'));
+        if (!snapshot.isFinalState) {
+          throw new Error(
+              `The file ${file} does not hold a captured snapshot.`);
+        }
+        return snapshot as stackdriver.CapturedSnapshot;
+      }));
+  const diff = diffSnapshots(before, after);
+  console.log(
+      format === 'json' ? JSON.stringify(diff, null, 2) :
+                          formatSnapshotDiff(diff));
+}
+
+async function main(logger: winston.Logger) {
+  updateNotifier({pkg}).notify();
+
+  if (cli.flags.diff) {
+    await printSnapshotDiff();
+    return;
+  }
+
+  let devtoolsPortNumber: number;
+  let extensionPortNumber: number;
+  let sourceDirectory: string;
+
+  if ((cli.flags.keyfile && cli.flags.project) ||
+      cli.flags.default && (cli.flags.keyfile || cli.flags.project)) {
+    logger.error({
+      origin: 'devtools-main',
+      message: 'You can specify at most one of keyfile, project, and default.',
+    });
+    process.exit(1);
+  }
+
+  if (cli.flags.source) {
+    sourceDirectory = cli.flags.source;
+  } else {
+    const answers = await inquirer.prompt({
+      type: 'input',
+      name: 'source',
+      message: 'Path to root source directory:',
+      default: cli.flags.source || DEFAULT_SOURCE_DIRECTORY,
+      validate: (source: string): true | string => {
+        if (source.trim()) {
+          return true;
+        } else {
+          return 'Please enter a valid path.';
+        }
+      },
+    } as inquirer.Question);
+    sourceDirectory = answers.source.trim();
+  }
+
+  // These casts with `Number` were already validated with `validatePort`.
+  if (validatePort(cli.flags.dport)) {
+    devtoolsPortNumber = Number(cli.flags.dport);
+  } else {
+    devtoolsPortNumber = await promptForPort(
+        'WebSocket port to connect the proxy to Chrome DevTools:',
+        DEFAULT_PORT_DEVTOOLS);
+  }
+
+  if (validatePort(cli.flags.eport) &&
+      Number(cli.flags.eport) !== devtoolsPortNumber) {
+    extensionPortNumber = Number(cli.flags.eport);
+  } else {
+    extensionPortNumber = await promptForPort(
+        'WebSocket port to connect the proxy to the extension:',
+        DEFAULT_PORT_EXTENSION);
+    while (extensionPortNumber === devtoolsPortNumber) {
+      logger.info({
+        origin: 'devtools-main',
+        message: `Please choose any port other than ${devtoolsPortNumber}.`,
+      });
+      extensionPortNumber = await promptForPort(
+          'WebSocket port to connect the proxy to the extension:',
+          DEFAULT_PORT_EXTENSION);
+    }
+  }
+
+  const {debugProxy, debuggeeId, debuggeeKey, logReader} = cli.flags.replay ?
+      await createReplayDebugProxy(logger, sourceDirectory) :
+      await connectDebugProxy(logger, sourceDirectory);
+
+  const maxSnapshotMegabytes = getPositiveIntegerFlag('maxmemory');
+  const adapter = new Adapter(debugProxy, {
+    pathMapping: await getPathMappingOptions(),
+    maxSnapshotCount: getPositiveIntegerFlag('maxsnaps'),
+    maxSnapshotBytes:
+        maxSnapshotMegabytes && maxSnapshotMegabytes * 1024 * 1024,
+    archiveDirectory: cli.flags.archivedir,
+    breakpointSetFile: cli.flags.statefile || DEFAULT_STATEFILE,
+    debuggeeKey,
+    debuggeeId,
+    logReader,
+  });
+  if (cli.flags.applyset) {
+    await adapter.applyBreakpointSet(cli.flags.applyset);
+  }
+  const importedSnapshotId = cli.flags.import ?
+      adapter.importSnapshot(await readSnapshotArchive(cli.flags.import)) :
+      undefined;
   const server = serveHttp(devtoolsPortNumber);
-  serveDevTools(server, adapter);
-  serveExtension(extensionPortNumber, adapter);
+  const sessionManager = new SessionManager(adapter);
+  serveDevTools(server, sessionManager, importedSnapshotId);
+  serveExtension(extensionPortNumber, sessionManager);
 }
 
 if (require.main === module) {
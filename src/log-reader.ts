@@ -0,0 +1,114 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import {Compute, GoogleAuth, JWT, UserRefreshClient} from 'google-auth-library';
+import {google} from 'googleapis';
+
+const logging = google.logging('v2');
+
+// Entries which may hold the output of a logpoint, either as plain text or
+// as the message of a structured entry.
+const LOGPOINT_FILTER =
+    '(textPayload:"LOGPOINT:" OR jsonPayload.message:"LOGPOINT:")';
+const PAGE_SIZE = 1000;
+
+type AuthClient = Compute|JWT|UserRefreshClient;
+
+/**
+ * Reads the lines which logpoints wrote to the application logs of a
+ * project. The agent writes them to the application log, which Cloud
+ * Logging collects, since Stackdriver Debug does not return them.
+ */
+export class LogReader {
+  // Time of the latest entry read, from which the next read continues.
+  private lastTimestamp = new Date().toISOString();
+  // IDs of the entries read at that time, which the next read skips.
+  private readonly lastInsertIdSet = new Set<string>();
+
+  /**
+   * @param auth - client authorized for the project
+   * @param projectId - project whose logs are read
+   */
+  constructor(
+      private readonly auth: AuthClient,
+      private readonly projectId: stackdriver.ProjectId) {}
+
+  /**
+   * Authorizes a reader with the same credentials as `DebugProxy`.
+   *
+   * @param projectId - project whose logs are read
+   * @param keyFilename - path to the GCP credentials key file, or nothing for
+   * the default credentials
+   * @returns reader of the logs of the project
+   */
+  static async create(projectId: stackdriver.ProjectId, keyFilename?: string):
+      Promise<LogReader> {
+    const auth = await new GoogleAuth().getClient({
+      keyFilename,
+      scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+    });
+    return new LogReader(auth, projectId);
+  }
+
+  /** Skips the lines which were logged until now. */
+  reset() {
+    this.lastTimestamp = new Date().toISOString();
+    this.lastInsertIdSet.clear();
+  }
+
+  /**
+   * Reads the lines which may be the output of logpoints, logged since the
+   * last read. Lines which reach Cloud Logging late, with an earlier time
+   * than the last line read, are missed.
+   *
+   * @returns lines of the application logs, from the oldest
+   */
+  async readLogpointLines(): Promise<string[]> {
+    const lineList: string[] = [];
+    const since = this.lastTimestamp;
+    let pageToken: string|undefined;
+    do {
+      const response = await logging.entries.list({
+        auth: this.auth,
+        requestBody: {
+          resourceNames: [`projects/${this.projectId}`],
+          filter: `${LOGPOINT_FILTER} AND timestamp>="${since}"`,
+          orderBy: 'timestamp asc',
+          pageSize: PAGE_SIZE,
+          pageToken,
+        },
+      });
+      for (const entry of response.data.entries || []) {
+        const line = entry.textPayload ||
+            (entry.jsonPayload && entry.jsonPayload.message);
+        if (!entry.timestamp || !entry.insertId ||
+            this.lastInsertIdSet.has(entry.insertId)) {
+          continue;
+        }
+        if (entry.timestamp !== this.lastTimestamp) {
+          this.lastTimestamp = entry.timestamp;
+          this.lastInsertIdSet.clear();
+        }
+        this.lastInsertIdSet.add(entry.insertId);
+        if (typeof line === 'string') {
+          lineList.push(line);
+        }
+      }
+      pageToken = response.data.nextPageToken;
+    } while (pageToken);
+    return lineList;
+  }
+}
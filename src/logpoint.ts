@@ -0,0 +1,181 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+
+export type LogLevel = 'INFO'|'WARNING'|'ERROR';
+
+export interface Logpoint {
+  logMessageFormat: string;
+  expressions: stackdriver.Expression[];
+  logLevel: LogLevel;
+}
+
+// DevTools wraps the text typed into the logpoint editor in `console.log()`.
+// https://chromium.googlesource.com/chromium/src/+/master/third_party/blink/renderer/devtools/front_end/sources/BreakpointEditDialog.js
+// A condition which is a single call of another console method is a logpoint
+// too, since V8 logs it without pausing, e.g. `console.warn('retry', count)`.
+const LOGPOINT_PREFIX_REGEX =
+    /^(?:\/\*\* DEVTOOLS_LOGPOINT \*\/\s*)?console\.(log|info|warn|error)\(/;
+const LOGPOINT_SUFFIX = ')';
+const LOG_LEVEL_MAP = new Map<string, LogLevel>([
+  ['log', 'INFO'],
+  ['info', 'INFO'],
+  ['warn', 'WARNING'],
+  ['error', 'ERROR'],
+]);
+
+// DevTools may append a `sourceURL` comment to the condition.
+const SOURCE_URL_COMMENT_REGEX = /\n\/\/# sourceURL=.*$/;
+
+const OPENING_BRACKET_SET = new Set<string>(['(', '[', '{']);
+const CLOSING_BRACKET_SET = new Set<string>([')', ']', '}']);
+const QUOTE_SET = new Set<string>(['\'', '"', '`']);
+const ESCAPE_SEQUENCE_MAP =
+    new Map<string, string>([['n', '\n'], ['r', '\r'], ['t', '\t']]);
+
+/*
+ * Splits the given argument list on its top-level commas, so that commas
+ * inside strings, calls, arrays and objects are kept in their argument.
+ *
+ * @param argumentList - source text between the parentheses of a call
+ * @returns source text of each argument, or null if it cannot be split
+ */
+function splitArguments(argumentList: string): string[]|null {
+  const argumentTextList: string[] = [];
+  let depth = 0;
+  let quote: string|null = null;
+  let start = 0;
+  for (let index = 0; index < argumentList.length; index++) {
+    const character = argumentList[index];
+    if (quote) {
+      if (character === '\\') {
+        index++;
+      } else if (character === quote) {
+        quote = null;
+      }
+    } else if (QUOTE_SET.has(character)) {
+      quote = character;
+    } else if (OPENING_BRACKET_SET.has(character)) {
+      depth++;
+    } else if (CLOSING_BRACKET_SET.has(character)) {
+      depth--;
+      if (depth < 0) {
+        return null;
+      }
+    } else if (character === ',' && depth === 0) {
+      argumentTextList.push(argumentList.substring(start, index).trim());
+      start = index + 1;
+    }
+  }
+  if (quote || depth !== 0) {
+    return null;
+  }
+  const lastArgumentText = argumentList.substring(start).trim();
+  if (lastArgumentText || argumentTextList.length > 0) {
+    argumentTextList.push(lastArgumentText);
+  }
+  return argumentTextList;
+}
+
+/*
+ * @param argumentText - source text of a single argument
+ * @returns value of the argument if it is a plain string literal, else null
+ */
+function parseStringLiteral(argumentText: string): string|null {
+  const quote = argumentText[0];
+  if (argumentText.length < 2 || !QUOTE_SET.has(quote) ||
+      argumentText[argumentText.length - 1] !== quote ||
+      (quote === '`' && argumentText.includes('${'))) {
+    return null;
+  }
+  return argumentText.substring(1, argumentText.length - 1)
+      .replace(
+          /\\(.)/g,
+          (match: string, character: string) =>
+              ESCAPE_SEQUENCE_MAP.get(character) || character);
+}
+
+/**
+ * Converts a DevTools logpoint condition to a Stackdriver log message.
+ *
+ * String literals are copied into the log message format, and every other
+ * argument becomes an expression referenced by its `$N` placeholder. The
+ * console method sets the log level, e.g. `console.warn` logs warnings.
+ * https://cloud.google.com/debugger/docs/using/logpoints
+ *
+ * @param condition - condition of a `setBreakpointByUrl` request
+ * @returns Stackdriver log message, or null if it is not a logpoint
+ */
+export function parseLogpoint(condition?: string): Logpoint|null {
+  if (!condition) {
+    return null;
+  }
+  const trimmedCondition =
+      condition.replace(SOURCE_URL_COMMENT_REGEX, '').trim();
+  const match = LOGPOINT_PREFIX_REGEX.exec(trimmedCondition);
+  if (!match || !trimmedCondition.endsWith(LOGPOINT_SUFFIX)) {
+    return null;
+  }
+  const argumentTextList = splitArguments(trimmedCondition.substring(
+      match[0].length, trimmedCondition.length - LOGPOINT_SUFFIX.length));
+  if (argumentTextList === null) {
+    return null;
+  }
+  const expressions: stackdriver.Expression[] = [];
+  const formatList = argumentTextList.map((argumentText: string) => {
+    const literal = parseStringLiteral(argumentText);
+    if (literal !== null) {
+      // `$` starts a placeholder in Stackdriver, so it is escaped as `$$`.
+      return literal.replace(/\$/g, '$$$$');
+    }
+    expressions.push(argumentText);
+    return `$${expressions.length - 1}`;
+  });
+  return {
+    logMessageFormat: formatList.join(' '),
+    expressions,
+    logLevel: LOG_LEVEL_MAP.get(match[1])!,
+  };
+}
+
+// The Node.js agent writes the message of a logpoint after this prefix.
+const LOGPOINT_OUTPUT_PREFIX = 'LOGPOINT: ';
+
+/**
+ * Recognizes the output of a logpoint in a line of the application log, by
+ * the prefix of the agent and the literal parts of the log message format.
+ *
+ * @param logMessageFormat - log message format of the logpoint, in which
+ * `$N` placeholders stand for any text
+ * @param line - line of the application log
+ * @returns the logged message without the prefix, or null if the logpoint
+ * did not write the line
+ */
+export function matchLogpointOutput(
+    logMessageFormat: string, line: string): string|null {
+  const pattern = logMessageFormat.split(/(\$\$|\$\d+)/)
+                      .map((part: string, index: number) => {
+                        // The separators of the split are at the odd indices.
+                        if (index % 2 === 0) {
+                          return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                        }
+                        return part === '$$' ? '\\$' : '[\\s\\S]*';
+                      })
+                      .join('');
+  const match =
+      new RegExp(`^${LOGPOINT_OUTPUT_PREFIX}(${pattern})\\s*$`).exec(line);
+  return match && match[1];
+}
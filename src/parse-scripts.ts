@@ -15,7 +15,7 @@
  */
 import * as fs from 'fs';
 import * as globby from 'globby';
-import {Runtime} from 'inspector';
+import {Debugger, Runtime} from 'inspector';
 import * as path from 'path';
 import * as devtools from './adapter';
 import split = require('split');
@@ -29,6 +29,10 @@ interface ScriptInfo {
 
 const CONCURRENCY = 10;
 
+// Shared by every function here, so that large trees do not exhaust the
+// file descriptors nor block other requests from Chrome DevTools.
+const limit = pLimit(CONCURRENCY);
+
 async function getScriptInfo(scriptId: Runtime.ScriptId): Promise<ScriptInfo> {
   return new Promise<ScriptInfo>((resolve, reject) => {
     let numberOfLines = 0;
@@ -40,8 +44,15 @@ async function getScriptInfo(scriptId: Runtime.ScriptId): Promise<ScriptInfo> {
   });
 }
 
-export async function parseScripts(sendEvent: Function, cwd: FilePath) {
-  const limit = pLimit(CONCURRENCY);
+/**
+ * Announces every script in the given directory to Chrome DevTools.
+ *
+ * @param sendEvent - function which sends an event to Chrome DevTools
+ * @param cwd - path to the root source directory
+ * @returns IDs of all the announced scripts
+ */
+export async function parseScripts(
+    sendEvent: Function, cwd: FilePath): Promise<Runtime.ScriptId[]> {
   const fileList =
       await globby(['**/*.js', '**/*.ts', '!**/node_modules/**'], {cwd});
   // `scriptId` must be an absolute path to the file in order
@@ -64,4 +75,39 @@ export async function parseScripts(sendEvent: Function, cwd: FilePath) {
       },
     });
   });
+  return scriptInfoList.map((scriptInfo: ScriptInfo) => scriptInfo.scriptId);
+}
+
+/**
+ * Searches the given script line by line.
+ *
+ * @param scriptId - absolute path to the file, from `parseScripts`
+ * @param query - string or regular expression to search for
+ * @param caseSensitive - true to search case-sensitively
+ * @param isRegex - true to treat the query as a regular expression
+ * @returns every line in the script which matches the query
+ */
+export async function searchScript(
+    scriptId: Runtime.ScriptId, query: string, caseSensitive = false,
+    isRegex = false): Promise<Debugger.SearchMatch[]> {
+  const regex = new RegExp(
+      isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+      caseSensitive ? '' : 'i');
+  return limit(() => new Promise<Debugger.SearchMatch[]>((resolve, reject) => {
+                 const searchMatchList: Debugger.SearchMatch[] = [];
+                 let lineNumber = 0;
+                 // Errors of the file, e.g. if it was deleted, are not piped.
+                 fs.createReadStream(scriptId, 'utf8')
+                     .on('error', reject)
+                     .pipe(split())
+                     .on('data',
+                         (lineContent: string) => {
+                           if (regex.test(lineContent)) {
+                             searchMatchList.push({lineNumber, lineContent});
+                           }
+                           lineNumber += 1;
+                         })
+                     .on('end', () => resolve(searchMatchList))
+                     .on('error', reject);
+               }));
 }
@@ -0,0 +1,123 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as fs from 'fs';
+import {Debugger, Runtime} from 'inspector';
+import * as path from 'path';
+import * as ts from 'typescript';
+import * as util from 'util';
+
+const readFileP = util.promisify(fs.readFile);
+const statP = util.promisify(fs.stat);
+
+interface ParsedScript {
+  // Modification time of the file when it was parsed.
+  mtimeMs: number;
+  breakLocationList: Debugger.BreakLocation[];
+}
+
+// Scripts are parsed again only once their files change.
+const parsedScriptMap = new Map<Runtime.ScriptId, ParsedScript>();
+
+// Execution can pause at the start of these statements.
+const BREAKABLE_KIND_SET = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.BreakStatement,
+  ts.SyntaxKind.ContinueStatement,
+  ts.SyntaxKind.DebuggerStatement,
+  ts.SyntaxKind.DoStatement,
+  ts.SyntaxKind.ExpressionStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.IfStatement,
+  ts.SyntaxKind.ReturnStatement,
+  ts.SyntaxKind.SwitchStatement,
+  ts.SyntaxKind.ThrowStatement,
+  ts.SyntaxKind.TryStatement,
+  ts.SyntaxKind.VariableStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.WithStatement,
+]);
+
+/*
+ * @param node - breakable node in the syntax tree of a script
+ * @returns type of the break location, if it has a special one
+ */
+function getBreakLocationType(node: ts.Node): string|undefined {
+  switch (node.kind) {
+    case ts.SyntaxKind.ReturnStatement:
+      return 'return';
+    case ts.SyntaxKind.DebuggerStatement:
+      return 'debuggerStatement';
+    default:
+      return undefined;
+  }
+}
+
+/*
+ * @param scriptId - absolute path to the file, from parse-scripts.ts
+ * @returns break locations of all statements, ordered by their positions
+ */
+async function parseFile(scriptId: Runtime.ScriptId):
+    Promise<Debugger.BreakLocation[]> {
+  const sourceFile = ts.createSourceFile(
+      path.basename(scriptId), await readFileP(scriptId, 'utf8'),
+      ts.ScriptTarget.Latest, false,
+      path.extname(scriptId) === '.ts' ? ts.ScriptKind.TS : ts.ScriptKind.JS);
+  const breakLocationList: Debugger.BreakLocation[] = [];
+  function visit(node: ts.Node) {
+    if (BREAKABLE_KIND_SET.has(node.kind)) {
+      const {line, character} =
+          sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const breakLocation: Debugger.BreakLocation = {
+        scriptId,
+        lineNumber: line,
+        columnNumber: character
+      };
+      const type = getBreakLocationType(node);
+      if (type) {
+        breakLocation.type = type;
+      }
+      breakLocationList.push(breakLocation);
+    }
+    ts.forEachChild(node, visit);
+  }
+  visit(sourceFile);
+  return breakLocationList.sort(
+      (a: Debugger.BreakLocation, b: Debugger.BreakLocation) =>
+          a.lineNumber - b.lineNumber || a.columnNumber! - b.columnNumber!);
+}
+
+/**
+ * Finds the location of every statement in the given script.
+ *
+ * Both JavaScript and TypeScript scripts are parsed, since parse-scripts.ts
+ * announces both to Chrome DevTools. The result is cached until the file
+ * is modified.
+ *
+ * @param scriptId - absolute path to the file, from parse-scripts.ts
+ * @returns break locations of all statements, ordered by their positions
+ */
+export async function parseStatements(scriptId: Runtime.ScriptId):
+    Promise<Debugger.BreakLocation[]> {
+  const {mtimeMs} = await statP(scriptId);
+  const parsedScript = parsedScriptMap.get(scriptId);
+  if (parsedScript && parsedScript.mtimeMs === mtimeMs) {
+    return parsedScript.breakLocationList;
+  }
+  const breakLocationList = await parseFile(scriptId);
+  parsedScriptMap.set(scriptId, {mtimeMs, breakLocationList});
+  return breakLocationList;
+}
@@ -0,0 +1,188 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+
+const readFileP = util.promisify(fs.readFile);
+
+type FilePath = string;
+
+/**
+ * Rules which relate paths in the local checkout to the paths of the
+ * deployed source files, as reported by Stackdriver Debug.
+ */
+export interface PathMappingOptions {
+  // Maps prefixes of local paths, relative to the source directory, to
+  // prefixes of deployed paths, e.g. `{"services/api": ""}` in a monorepo.
+  prefixes?: {[localPrefix: string]: string};
+  // Number of leading components to remove from deployed paths which
+  // do not match any prefix, e.g. 1 to resolve `app/src/a.js` to `src/a.js`.
+  strip?: number;
+}
+
+interface PrefixRule {
+  localPrefix: string;
+  remotePrefix: string;
+}
+
+/*
+ * @param filePath - relative path in either the local or deployed layout
+ * @returns the path with forward slashes and no leading `./` nor `/`
+ */
+function normalize(filePath: FilePath): FilePath {
+  return filePath.split(path.sep)
+      .join('/')
+      .replace(/^(\.?\/)+/, '')
+      .replace(/\/+$/, '');
+}
+
+/*
+ * @param filePath - normalized path
+ * @param prefix - normalized prefix, where the empty prefix matches anything
+ * @returns the rest of the path after the prefix, or null if it does not match
+ */
+function stripPrefix(filePath: FilePath, prefix: string): FilePath|null {
+  if (!prefix) {
+    return filePath;
+  }
+  if (filePath === prefix) {
+    return '';
+  }
+  return filePath.startsWith(prefix + '/') ?
+      filePath.substring(prefix.length + 1) :
+      null;
+}
+
+/*
+ * @param prefix - normalized prefix, which may be empty
+ * @param rest - normalized path after the prefix, which may be empty
+ */
+function joinPrefix(prefix: string, rest: FilePath): FilePath {
+  return prefix && rest ? `${prefix}/${rest}` : prefix || rest;
+}
+
+/**
+ * Reads path mapping rules from a JSON file with the format of
+ * `PathMappingOptions`, e.g. `{"prefixes": {"services/api": ""}, "strip": 0}`.
+ *
+ * @param mappingFile - path to the JSON file
+ * @returns path mapping rules in the file
+ */
+export async function readPathMappingFile(mappingFile: FilePath):
+    Promise<PathMappingOptions> {
+  const options = JSON.parse(await readFileP(mappingFile, 'utf8'));
+  if (options.strip !== undefined &&
+      !(Number.isInteger(options.strip) && options.strip >= 0)) {
+    throw new Error(
+        `The path mapping file ${mappingFile} should specify \`strip\` ` +
+        'as a non-negative integer.');
+  }
+  return options;
+}
+
+/**
+ * Translates paths between the local checkout and the deployed source.
+ *
+ * Breakpoints are sent to Stackdriver Debug with paths relative to the
+ * source directory, which its agents match against the ends of the paths
+ * of the loaded scripts, so the deployed root directory need not be known.
+ */
+export class PathMapper {
+  // The same rules, sorted by the lengths of their local and remote prefixes,
+  // since longer prefixes are more specific and so are tried first.
+  private readonly localPrefixRuleList: PrefixRule[];
+  private readonly remotePrefixRuleList: PrefixRule[];
+  private readonly strip: number;
+
+  /**
+   * @param sourceDirectory - path to the root directory of the local checkout
+   * @param options - rules which relate local paths to deployed paths
+   */
+  constructor(
+      private readonly sourceDirectory: FilePath,
+      options: PathMappingOptions = {}) {
+    const prefixes = options.prefixes || {};
+    const prefixRuleList = Object.keys(prefixes).map(
+        (localPrefix: string): PrefixRule => ({
+          localPrefix: normalize(localPrefix),
+          remotePrefix: normalize(prefixes[localPrefix]),
+        }));
+    this.localPrefixRuleList = prefixRuleList.slice().sort(
+        (a: PrefixRule, b: PrefixRule) =>
+            b.localPrefix.length - a.localPrefix.length);
+    this.remotePrefixRuleList = prefixRuleList.slice().sort(
+        (a: PrefixRule, b: PrefixRule) =>
+            b.remotePrefix.length - a.remotePrefix.length);
+    this.strip = options.strip || 0;
+  }
+
+  /**
+   * @param localPath - absolute path to a file in the local checkout
+   * @returns path of the file to send to Stackdriver Debug
+   */
+  toRemote(localPath: FilePath): stackdriver.SourcePath {
+    const absoluteSourceDirectory = path.resolve(this.sourceDirectory);
+    const relativePath = path.relative(
+        absoluteSourceDirectory,
+        path.resolve(absoluteSourceDirectory, localPath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      // The file is outside of the local checkout, so it cannot be mapped.
+      return localPath;
+    }
+    const normalizedPath = normalize(relativePath);
+    for (const {localPrefix, remotePrefix} of this.localPrefixRuleList) {
+      const rest = stripPrefix(normalizedPath, localPrefix);
+      if (rest !== null) {
+        return joinPrefix(remotePrefix, rest);
+      }
+    }
+    return normalizedPath;
+  }
+
+  /**
+   * @param remotePath - path of a file reported by Stackdriver Debug
+   * @param localPathList - absolute paths to all the files in the checkout,
+   * to find the file by the end of its path if the rules do not resolve it
+   * @returns absolute path to the file in the local checkout
+   */
+  toLocal(remotePath: stackdriver.SourcePath, localPathList: FilePath[] = []):
+      FilePath {
+    const normalizedPath = normalize(remotePath);
+    let localPath: FilePath|undefined;
+    for (const {localPrefix, remotePrefix} of this.remotePrefixRuleList) {
+      const rest = stripPrefix(normalizedPath, remotePrefix);
+      if (rest !== null) {
+        localPath = joinPrefix(localPrefix, rest);
+        break;
+      }
+    }
+    if (localPath === undefined) {
+      localPath = path.isAbsolute(remotePath) && this.strip === 0 ?
+          remotePath :
+          normalizedPath.split('/').slice(this.strip).join('/');
+    }
+    const absolutePath = path.resolve(this.sourceDirectory, localPath);
+    if (localPathList.length === 0 || localPathList.includes(absolutePath)) {
+      return absolutePath;
+    }
+    const suffix = path.sep + normalizedPath.split('/').join(path.sep);
+    const matchingPathList =
+        localPathList.filter((filePath: FilePath) => filePath.endsWith(suffix));
+    return matchingPathList.length === 1 ? matchingPathList[0] : absolutePath;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {EventEmitter} from 'events';
+import {loggers} from 'winston';
+
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 60 * 1000;
+const DEFAULT_SERVICE_NAME = 'Stackdriver Debug';
+
+// Network errors after which a request may succeed when sent again.
+const TRANSIENT_CODE_SET =
+    new Set<string>(['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED']);
+
+export interface PollerOptions {
+  // Delay before retrying after the first failure, which doubles with each
+  // consecutive failure.
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Delay between successful polls, for polls which do not block until
+  // there are changes.
+  intervalMs?: number;
+  // Name of the polled service in log messages.
+  serviceName?: string;
+}
+
+export interface PollerHealth {
+  polling: boolean;
+  // Time of the last successful poll, in milliseconds since the epoch.
+  lastSuccessTime?: number;
+  consecutiveFailureCount: number;
+  // Message of the last error, while polls are failing.
+  lastError?: string;
+  // Delay before the next retry, while polls are failing.
+  retryDelayMs?: number;
+}
+
+// Error thrown by the Google APIs client, or by Node.js on network errors.
+interface PollError extends Error {
+  code?: string;
+  response?: {status?: number};
+}
+
+/**
+ * @param error - error thrown by a poll
+ * @returns true if the poll may succeed when retried, e.g. on network errors
+ */
+export function isTransientError(error: PollError): boolean {
+  if (error.response) {
+    // Google Cloud APIs ask to retry later with 429 and server errors.
+    const status = error.response.status;
+    return status !== undefined &&
+        (status === 429 || (status >= 500 && status < 600));
+  }
+  return error.code !== undefined && TRANSIENT_CODE_SET.has(error.code);
+}
+
+/**
+ * Computes an exponential backoff with equal jitter, so that proxies which
+ * failed at the same time do not retry at the same time.
+ *
+ * @param failureCount - number of consecutive failures, from 1
+ * @param initialBackoffMs - delay after the first failure, without jitter
+ * @param maxBackoffMs - maximum delay, without jitter
+ * @param random - random number in [0, 1)
+ * @returns delay before the next retry, in milliseconds
+ */
+export function getBackoffMs(
+    failureCount: number, initialBackoffMs: number, maxBackoffMs: number,
+    random: number): number {
+  const backoffMs =
+      Math.min(maxBackoffMs, initialBackoffMs * Math.pow(2, failureCount - 1));
+  return Math.round(backoffMs / 2 + random * backoffMs / 2);
+}
+
+/**
+ * A loop which calls a poll function until it is stopped, e.g. to wait for
+ * changes to the list of pending breakpoints. Failed polls are retried after
+ * a backoff instead of ending the loop.
+ *
+ * @fires 'health' with the `PollerHealth` after each poll
+ */
+export class Poller extends EventEmitter {
+  // TODO: get() does not exist yet, will be resolved in Winston 3.1
+  // https://github.com/winstonjs/winston/issues/1361
+  // tslint:disable-next-line no-any
+  private readonly logger = (loggers as any).get('devtools-logger');
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly intervalMs: number;
+  private readonly serviceName: string;
+  private running = false;
+  // The loop, which finishes a poll in progress after it is stopped.
+  private loopPromise?: Promise<void>;
+  // Ends the wait in progress early when the poller is stopped.
+  private wakeUp?: () => void;
+  private lastSuccessTime?: number;
+  private consecutiveFailureCount = 0;
+  private lastError?: string;
+  private retryDelayMs?: number;
+
+  /**
+   * @param poll - function which resolves once it polled, and may block
+   * @param options - backoff after failed polls
+   */
+  constructor(
+      private readonly poll: () => Promise<void>, options: PollerOptions = {}) {
+    super();
+    this.initialBackoffMs =
+        options.initialBackoffMs || DEFAULT_INITIAL_BACKOFF_MS;
+    this.maxBackoffMs = options.maxBackoffMs || DEFAULT_MAX_BACKOFF_MS;
+    this.intervalMs = options.intervalMs || 0;
+    this.serviceName = options.serviceName || DEFAULT_SERVICE_NAME;
+  }
+
+  /** Starts polling, unless the poller is already running. */
+  start() {
+    this.running = true;
+    if (!this.loopPromise) {
+      this.loopPromise = this.loop().then(() => {
+        this.loopPromise = undefined;
+      });
+    }
+  }
+
+  /**
+   * Stops polling. A poll in progress cannot be cancelled, so it finishes
+   * first, unless the poller is started again meanwhile.
+   *
+   * @returns promise which resolves once the loop ended
+   */
+  stop(): Promise<void> {
+    this.running = false;
+    if (this.wakeUp) {
+      this.wakeUp();
+    }
+    return this.loopPromise || Promise.resolve();
+  }
+
+  /** @returns whether the poller is running and how its polls went */
+  getHealth(): PollerHealth {
+    const health: PollerHealth = {
+      polling: this.running,
+      consecutiveFailureCount: this.consecutiveFailureCount,
+    };
+    if (this.lastSuccessTime !== undefined) {
+      health.lastSuccessTime = this.lastSuccessTime;
+    }
+    if (this.consecutiveFailureCount > 0) {
+      health.lastError = this.lastError;
+      health.retryDelayMs = this.retryDelayMs;
+    }
+    return health;
+  }
+
+  private async loop() {
+    while (this.running) {
+      try {
+        await this.poll();
+      } catch (error) {
+        await this.backOff(error);
+        continue;
+      }
+      if (this.consecutiveFailureCount > 0) {
+        this.logger.info({
+          origin: 'poller-health',
+          message: `Polling ${this.serviceName} recovered after ` +
+              `${this.consecutiveFailureCount} failures.`,
+        });
+      }
+      this.lastSuccessTime = Date.now();
+      this.consecutiveFailureCount = 0;
+      this.emit('health', this.getHealth());
+      if (this.intervalMs > 0 && this.running) {
+        await this.sleep(this.intervalMs);
+      }
+    }
+  }
+
+  /*
+   * Waits before the next poll, unless the poller is stopped meanwhile.
+   *
+   * @param delayMs - time to wait, in milliseconds
+   */
+  private async sleep(delayMs: number) {
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, delayMs);
+      this.wakeUp = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+    this.wakeUp = undefined;
+  }
+
+  /*
+   * Reports a failed poll, then waits before the next one.
+   *
+   * @param error - error thrown by the poll
+   */
+  private async backOff(error: PollError) {
+    this.consecutiveFailureCount++;
+    this.lastError = error.message;
+    const transient = isTransientError(error);
+    // Other errors, e.g. expired credentials, are retried at the slowest rate.
+    const retryDelayMs = getBackoffMs(
+        transient ? this.consecutiveFailureCount : Infinity,
+        this.initialBackoffMs, this.maxBackoffMs, Math.random());
+    this.retryDelayMs = retryDelayMs;
+    const message = `Polling ${this.serviceName} failed ` +
+        `${this.consecutiveFailureCount} times in a row, retrying in ` +
+        `${retryDelayMs} ms: ${error.stack}`;
+    if (transient) {
+      this.logger.warn({origin: 'poller-error', message});
+    } else {
+      this.logger.error({origin: 'poller-error', message});
+    }
+    this.emit('health', this.getHealth());
+    await this.sleep(retryDelayMs);
+  }
+}
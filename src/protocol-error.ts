@@ -0,0 +1,84 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Chrome DevTools Protocol uses the error codes of JSON-RPC 2.0.
+// https://www.jsonrpc.org/specification#error_object
+export enum ErrorCode {
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  SERVER_ERROR = -32000,
+}
+
+export interface MessageError {
+  code: ErrorCode;
+  message: string;
+  data?: string;
+}
+
+// Error thrown by the Google APIs client when a request to Stackdriver fails.
+interface ApiError extends Error {
+  response?: {
+    status?: number;
+    data?: {error?: {message?: string; status?: string;};};
+  };
+}
+
+/**
+ * An error which is sent to Chrome DevTools as the response to a request.
+ */
+export class ProtocolError extends Error {
+  /**
+   * @param code - JSON-RPC error code
+   * @param message - message which DevTools shows to the user
+   * @param data - optional details about the error
+   */
+  constructor(
+      readonly code: ErrorCode, message: string, readonly data?: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+
+  /** @returns error object of a Chrome DevTools Protocol response */
+  toMessageError(): MessageError {
+    const messageError: MessageError = {code: this.code, message: this.message};
+    if (this.data !== undefined) {
+      messageError.data = this.data;
+    }
+    return messageError;
+  }
+
+  /**
+   * Converts any error thrown while processing a request, using the message
+   * from Stackdriver Debug if a request to it failed.
+   *
+   * @param error - error thrown while processing a request
+   * @returns error to send to Chrome DevTools
+   */
+  static from(error: Error): ProtocolError {
+    if (error instanceof ProtocolError) {
+      return error;
+    }
+    const apiError = error as ApiError;
+    if (apiError.response && apiError.response.data &&
+        apiError.response.data.error && apiError.response.data.error.message) {
+      const {message, status} = apiError.response.data.error;
+      return new ProtocolError(
+          ErrorCode.SERVER_ERROR, `Stackdriver Debug: ${message}`,
+          status || String(apiError.response.status));
+    }
+    return new ProtocolError(ErrorCode.SERVER_ERROR, error.message);
+  }
+}
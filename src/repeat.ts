@@ -0,0 +1,93 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * How long a breakpoint keeps capturing snapshots, since Stackdriver
+ * breakpoints only capture once and are then set again.
+ */
+export interface RepeatOptions {
+  // Number of snapshots after which the breakpoint stops being set again.
+  maxHitCount?: number;
+  // Milliseconds after the breakpoint is first set to stop setting it again.
+  windowMs?: number;
+}
+
+export interface RepeatCondition {
+  repeatOptions: RepeatOptions;
+  // The rest of the condition, if any, which is sent to Stackdriver.
+  condition?: string;
+}
+
+// A leading comment in the condition of a DevTools breakpoint, such as
+// `/* repeat 5 */`, `/* repeat 10m */` or `/* repeat 5, 1h */ count > 1`.
+const REPEAT_DIRECTIVE_REGEX = /^\s*\/\*\s*repeat\s+([^*]*?)\s*\*\/\s*/;
+const DURATION_REGEX = /^(\d+)(ms|s|m|h)$/;
+const DURATION_UNIT_MS_MAP = new Map<string, number>([
+  ['ms', 1],
+  ['s', 1000],
+  ['m', 60 * 1000],
+  ['h', 60 * 60 * 1000],
+]);
+
+/*
+ * @param text - parameter of a repeat directive, e.g. `5` or `10m`
+ * @param repeatOptions - options to which the parameter is added
+ * @returns true if the parameter is valid
+ */
+function parseRepeatParameter(
+    text: string, repeatOptions: RepeatOptions): boolean {
+  if (/^\d+$/.test(text) && repeatOptions.maxHitCount === undefined) {
+    repeatOptions.maxHitCount = Number(text);
+    return repeatOptions.maxHitCount > 0;
+  }
+  const match = DURATION_REGEX.exec(text);
+  if (match && repeatOptions.windowMs === undefined) {
+    repeatOptions.windowMs =
+        Number(match[1]) * DURATION_UNIT_MS_MAP.get(match[2])!;
+    return repeatOptions.windowMs > 0;
+  }
+  return false;
+}
+
+/**
+ * Separates a repeat directive from the condition of a DevTools breakpoint,
+ * e.g. a condition starting with the comment `repeat 5, 10m` to capture up
+ * to 5 snapshots within 10 minutes of setting the breakpoint.
+ *
+ * @param condition - condition of a `setBreakpointByUrl` request
+ * @returns options and the rest of the condition, or null without directive
+ * @throws if the directive is invalid
+ */
+export function parseRepeatCondition(condition?: string): RepeatCondition|null {
+  const match = condition && REPEAT_DIRECTIVE_REGEX.exec(condition);
+  if (!condition || !match) {
+    return null;
+  }
+  const repeatOptions: RepeatOptions = {};
+  const parameterList = match[1].split(/\s*,\s*|\s+/);
+  if (!parameterList.every(
+          (parameter: string) =>
+              parseRepeatParameter(parameter, repeatOptions))) {
+    throw new Error(
+        `The repeat directive \`${match[0].trim()}\` should have a positive ` +
+        'number of snapshots, a duration such as 10m, or both.');
+  }
+  const restCondition = condition.substring(match[0].length).trim();
+  return {
+    repeatOptions,
+    condition: restCondition || undefined,
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import {EventEmitter} from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import {DebugProxy} from './adapter';
+import {parseSnapshotArchive} from './snapshot-archive';
+
+const readdirP = util.promisify(fs.readdir);
+const readFileP = util.promisify(fs.readFile);
+
+type FilePath = string;
+
+// The only debuggee of a replay, whose project is not in Google Cloud.
+export const REPLAY_PROJECT_ID = 'replay';
+export const REPLAY_DEBUGGEE_ID = 'replay';
+
+/**
+ * @param text - JSON content of a saved breakpoint, which is either a snapshot
+ * archive, a response of Stackdriver Debug, or a bare breakpoint
+ * @returns the breakpoint
+ */
+export function parseSavedBreakpoint(text: string): stackdriver.Breakpoint {
+  const json = JSON.parse(text);
+  if (json.version !== undefined) {
+    return parseSnapshotArchive(text).snapshot;
+  }
+  const breakpoint = json.breakpoint || json;
+  if (!breakpoint.id || !breakpoint.location) {
+    throw new Error('The file does not hold a Stackdriver Debug breakpoint.');
+  }
+  return breakpoint;
+}
+
+/**
+ * A stand-in for `stackdriver.DebugProxy` which serves breakpoints saved in
+ * a local directory, so that snapshots can be reviewed without Google Cloud.
+ *
+ * Breakpoints set while replaying are captured from a saved snapshot at the
+ * same location, if there is one, and otherwise stay pending.
+ *
+ * @fires breakpointHit when a breakpoint set while replaying is captured
+ */
+export class ReplayDebugProxy extends EventEmitter implements DebugProxy {
+  private readonly breakpointMap =
+      new Map<stackdriver.BreakpointId, stackdriver.Breakpoint>();
+  private setBreakpointCount = 0;
+  // Resolve the blocked `updatePendingBreakpoints` when a breakpoint is set.
+  private resolveUpdateList: Array<() => void> = [];
+
+  /**
+   * @param options - debugger ID and path to the local source directory
+   * @param replayDirectory - directory of JSON files of saved breakpoints
+   */
+  constructor(
+      readonly options: stackdriver.Options,
+      private readonly replayDirectory: FilePath) {
+    super();
+  }
+
+  /**
+   * Reads every JSON file in the replay directory.
+   *
+   * @returns number of breakpoints which were read
+   */
+  async load(): Promise<number> {
+    const fileNameList =
+        (await readdirP(this.replayDirectory))
+            .filter((fileName: string) => fileName.endsWith('.json'))
+            .sort();
+    for (const fileName of fileNameList) {
+      const filePath = path.join(this.replayDirectory, fileName);
+      let breakpoint: stackdriver.Breakpoint;
+      try {
+        breakpoint = parseSavedBreakpoint(await readFileP(filePath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Failed to read ${filePath}: ${error.message}`);
+      }
+      this.breakpointMap.set(breakpoint.id, breakpoint);
+    }
+    return this.breakpointMap.size;
+  }
+
+  async updatePendingBreakpoints(block: boolean): Promise<void> {
+    if (!this.captureSetBreakpoints() && block) {
+      await new Promise<void>(
+          (resolve) => this.resolveUpdateList.push(resolve));
+      this.captureSetBreakpoints();
+    }
+  }
+
+  getDebuggerId(): stackdriver.DebuggerId {
+    return this.options.debuggerId;
+  }
+
+  getProjectId(): stackdriver.ProjectId {
+    return REPLAY_PROJECT_ID;
+  }
+
+  async getDebuggees(): Promise<stackdriver.Debuggee[]> {
+    return [{
+      id: REPLAY_DEBUGGEE_ID,
+      labels: {projectid: REPLAY_PROJECT_ID, version: this.replayDirectory},
+    }];
+  }
+
+  setDebuggeeId(debuggeeId: stackdriver.DebuggeeId) {
+    if (debuggeeId !== REPLAY_DEBUGGEE_ID) {
+      throw new Error(
+          `The debuggee ${debuggeeId} cannot be replayed, only ` +
+          `${REPLAY_DEBUGGEE_ID}.`);
+    }
+  }
+
+  async getBreakpoint(breakpointId: stackdriver.BreakpointId):
+      Promise<stackdriver.Breakpoint> {
+    const breakpoint = this.breakpointMap.get(breakpointId);
+    if (!breakpoint) {
+      throw new Error(
+          `The breakpoint with ID ${breakpointId} is not in the replay ` +
+          `directory ${this.replayDirectory}.`);
+    }
+    return breakpoint;
+  }
+
+  getBreakpointList(captured: boolean): stackdriver.Breakpoint[] {
+    return Array.from(this.breakpointMap.values())
+        .filter(
+            (breakpoint: stackdriver.Breakpoint) =>
+                !!breakpoint.isFinalState === captured);
+  }
+
+  getSnapshotIdList(captured: boolean): stackdriver.BreakpointId[] {
+    return this.getBreakpointList(captured).map(
+        (breakpoint: stackdriver.Breakpoint) => breakpoint.id);
+  }
+
+  async setBreakpoint(breakpointRequest: stackdriver.BreakpointRequest):
+      Promise<stackdriver.Breakpoint> {
+    const breakpoint: stackdriver.Breakpoint = {
+      ...breakpointRequest,
+      id: `replay-${++this.setBreakpointCount}`,
+    };
+    this.breakpointMap.set(breakpoint.id, breakpoint);
+    const resolveUpdateList = this.resolveUpdateList;
+    this.resolveUpdateList = [];
+    resolveUpdateList.forEach((resolve: () => void) => resolve());
+    return breakpoint;
+  }
+
+  async removeBreakpoint(breakpointId: stackdriver.BreakpointId):
+      Promise<void> {
+    this.breakpointMap.delete(breakpointId);
+  }
+
+  /*
+   * Captures each pending breakpoint set while replaying with the data of
+   * a saved snapshot at the same location.
+   *
+   * @returns true if any breakpoint was captured
+   * @fires breakpointHit if any breakpoint was captured
+   */
+  private captureSetBreakpoints(): boolean {
+    const savedSnapshotList = this.getBreakpointList(true).filter(
+        (breakpoint: stackdriver.Breakpoint) =>
+            !breakpoint.status || !breakpoint.status.isError);
+    let hitAny = false;
+    for (const breakpoint of this.getBreakpointList(false)) {
+      const savedSnapshot = savedSnapshotList.find(
+          (snapshot: stackdriver.Breakpoint) =>
+              snapshot.location.path === breakpoint.location.path &&
+              snapshot.location.line === breakpoint.location.line);
+      if (savedSnapshot && breakpoint.action !== stackdriver.Action.LOG) {
+        this.breakpointMap.set(
+            breakpoint.id, {...savedSnapshot, id: breakpoint.id});
+        hitAny = true;
+      }
+    }
+    if (hitAny) {
+      this.emit('breakpointHit');
+    }
+    return hitAny;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import {EventEmitter} from 'events';
+import {Debugger} from 'inspector';
+import {loggers} from 'winston';
+import {Adapter} from './adapter';
+import {Poller, PollerOptions} from './poller';
+
+// Cloud Logging allows 60 reads per minute in a project.
+const LOGPOINT_POLL_INTERVAL_MS = 5 * 1000;
+
+type Listener = (...args: Array<{}>) => void;
+
+interface ListenerEntry {
+  emitter: EventEmitter;
+  event: string;
+  listener: Listener;
+}
+
+/**
+ * A connection of Chrome DevTools or of the Snapshot Explorer to the proxy,
+ * whose listeners are removed from the shared emitters when it closes.
+ */
+export class Session {
+  private listenerEntryList: ListenerEntry[] = [];
+  private closed = false;
+
+  /**
+   * @param id - number of the session, unique in its session manager
+   */
+  constructor(readonly id: number) {}
+
+  /**
+   * @param emitter - emitter shared by all sessions, e.g. the adapter
+   * @param event - name of the event to listen to
+   * @param listener - listener, which is removed when the session closes
+   */
+  listen(emitter: EventEmitter, event: string, listener: Listener) {
+    // Connections may close while they are still being set up.
+    if (this.closed) {
+      return;
+    }
+    emitter.on(event, listener);
+    this.listenerEntryList.push({emitter, event, listener});
+  }
+
+  /** Removes all the listeners of the session. */
+  close() {
+    for (const {emitter, event, listener} of this.listenerEntryList) {
+      emitter.removeListener(event, listener);
+    }
+    this.listenerEntryList = [];
+    this.closed = true;
+  }
+}
+
+/**
+ * The sessions connected to one adapter. They share a single loop polling
+ * Stackdriver Debug for breakpoint changes and one relaying the output of
+ * logpoints, which run while any of them is open, and the snapshot which
+ * they show as paused.
+ *
+ * @fires 'paused' with the `Debugger.paused` event of a snapshot, once it is
+ * loaded for all the DevTools sessions
+ */
+export class SessionManager extends EventEmitter {
+  // TODO: get() does not exist yet, will be resolved in Winston 3.1
+  // https://github.com/winstonjs/winston/issues/1361
+  // tslint:disable-next-line no-any
+  private readonly logger = (loggers as any).get('devtools-logger');
+  private readonly sessionSet = new Set<Session>();
+  private sessionCount = 0;
+  // Polls for breakpoint changes while any session is open.
+  readonly poller: Poller;
+  // Relays the output of logpoints while any session is open.
+  readonly logpointPoller: Poller;
+  // The event of the snapshot shown as paused, for sessions which open later.
+  private pausedEvent?: Debugger.PausedEventDataType;
+
+  /**
+   * @param adapter - adapter shared by all the sessions
+   * @param pollerOptions - backoff of the poller after failed polls
+   */
+  constructor(readonly adapter: Adapter, pollerOptions?: PollerOptions) {
+    super();
+    this.poller =
+        new Poller(() => adapter.updatePendingBreakpoints(true), pollerOptions);
+    this.logpointPoller = new Poller(() => adapter.relayLogpointOutput(), {
+      ...pollerOptions,
+      intervalMs: LOGPOINT_POLL_INTERVAL_MS,
+      serviceName: 'Cloud Logging',
+    });
+    adapter.on('loadSnapshot', async (snapshotId: stackdriver.BreakpointId) => {
+      try {
+        this.pausedEvent = await adapter.loadSnapshot(snapshotId);
+      } catch (error) {
+        this.logger.error({origin: 'session-load', message: error.stack});
+        return;
+      }
+      this.emit('paused', this.pausedEvent);
+    });
+    adapter.on('resume', () => {
+      this.pausedEvent = undefined;
+    });
+  }
+
+  /**
+   * Opens a session, and starts polling if it is the only one.
+   *
+   * @returns the new session
+   */
+  open(): Session {
+    const session = new Session(++this.sessionCount);
+    this.sessionSet.add(session);
+    this.logger.verbose({
+      origin: 'session-open',
+      message: `Opened session ${session.id}, ` +
+          `${this.sessionSet.size} sessions are open.`,
+    });
+    this.poller.start();
+    this.logpointPoller.start();
+    return session;
+  }
+
+  /**
+   * Closes a session. Polling stops once no session is open.
+   *
+   * @param session - session opened by this manager
+   */
+  close(session: Session) {
+    session.close();
+    this.adapter.closeSession(session.id);
+    this.sessionSet.delete(session);
+    this.logger.verbose({
+      origin: 'session-close',
+      message: `Closed session ${session.id}, ` +
+          `${this.sessionSet.size} sessions are open.`,
+    });
+    if (this.sessionSet.size === 0) {
+      this.poller.stop();
+      this.logpointPoller.stop();
+    }
+  }
+
+  /** @returns the event of the snapshot shown as paused, if any */
+  getPausedEvent(): Debugger.PausedEventDataType|undefined {
+    return this.pausedEvent;
+  }
+}
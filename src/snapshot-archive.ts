@@ -0,0 +1,141 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as fs from 'fs';
+import * as util from 'util';
+
+const readFileP = util.promisify(fs.readFile);
+const writeFileP = util.promisify(fs.writeFile);
+
+type FilePath = string;
+
+// Version of the archive format, which is increased on incompatible changes.
+export const SNAPSHOT_ARCHIVE_VERSION = 1;
+
+// Number of source lines kept before and after each location in a snapshot.
+const SOURCE_CONTEXT_LINE_COUNT = 5;
+
+/**
+ * A captured snapshot which can be loaded without Stackdriver Debug,
+ * e.g. after it expires there.
+ */
+export interface SnapshotArchive {
+  version: number;
+  // The breakpoint as returned by Stackdriver Debug.
+  snapshot: stackdriver.CapturedSnapshot;
+  // Lines of the source files around the locations in the snapshot,
+  // by deployed path and then by line number, which starts at 1.
+  sourceLines: {[path: string]: {[line: number]: string}};
+}
+
+/**
+ * @param snapshot - captured snapshot from Stackdriver Debug
+ * @param readSourceFile - reads the content of a file by its deployed path,
+ * or returns undefined if the file is not available
+ * @returns archive of the snapshot
+ */
+export async function createSnapshotArchive(
+    snapshot: stackdriver.CapturedSnapshot,
+    readSourceFile: (path: stackdriver.SourcePath) =>
+        Promise<string|undefined>): Promise<SnapshotArchive> {
+  const locationList = [
+    snapshot.location,
+    ...(snapshot.stackFrames || [])
+        .map((stackFrame: stackdriver.StackFrame) => stackFrame.location),
+  ];
+  const sourceLines: SnapshotArchive['sourceLines'] = {};
+  for (const location of locationList) {
+    if (!location || !location.path) {
+      continue;
+    }
+    const content = await readSourceFile(location.path);
+    if (content === undefined) {
+      continue;
+    }
+    const lineList = content.split(/\r?\n/);
+    const lineMap = sourceLines[location.path] || {};
+    const firstLine = Math.max(1, location.line - SOURCE_CONTEXT_LINE_COUNT);
+    const lastLine =
+        Math.min(lineList.length, location.line + SOURCE_CONTEXT_LINE_COUNT);
+    for (let line = firstLine; line <= lastLine; line++) {
+      lineMap[line] = lineList[line - 1];
+    }
+    sourceLines[location.path] = lineMap;
+  }
+  return {version: SNAPSHOT_ARCHIVE_VERSION, snapshot, sourceLines};
+}
+
+/*
+ * @returns true if the location has a path and a line, as the locations of
+ * snapshots are loaded
+ */
+function isSourceLocation(location?: stackdriver.SourceLocation): boolean {
+  return !!location && typeof location.path === 'string' &&
+      Number.isInteger(location.line);
+}
+
+/**
+ * @param text - JSON content of a snapshot archive
+ * @returns archive, after checking that it has a supported version and that
+ * its snapshot has the locations needed to load it
+ */
+export function parseSnapshotArchive(text: string): SnapshotArchive {
+  const archive: SnapshotArchive = JSON.parse(text);
+  if (archive.version !== SNAPSHOT_ARCHIVE_VERSION) {
+    throw new Error(
+        `The snapshot archive has version ${archive.version}, but only ` +
+        `version ${SNAPSHOT_ARCHIVE_VERSION} is supported.`);
+  }
+  if (!archive.snapshot || !archive.snapshot.id ||
+      !archive.snapshot.isFinalState) {
+    throw new Error('The snapshot archive does not hold a captured snapshot.');
+  }
+  if (!isSourceLocation(archive.snapshot.location)) {
+    throw new Error(
+        'The snapshot in the archive has no location with a path and a line.');
+  }
+  if (!Array.isArray(archive.snapshot.stackFrames)) {
+    throw new Error('The snapshot in the archive has no stack frames.');
+  }
+  archive.snapshot.stackFrames.forEach(
+      (stackFrame: stackdriver.StackFrame, index: number) => {
+        if (!stackFrame || !isSourceLocation(stackFrame.location)) {
+          throw new Error(
+              `Stack frame ${index} of the snapshot in the archive has no ` +
+              'location with a path and a line.');
+        }
+      });
+  archive.sourceLines = archive.sourceLines || {};
+  return archive;
+}
+
+/**
+ * @param archiveFile - path to the JSON file to read
+ * @returns archive in the file
+ */
+export async function readSnapshotArchive(archiveFile: FilePath):
+    Promise<SnapshotArchive> {
+  return parseSnapshotArchive(await readFileP(archiveFile, 'utf8'));
+}
+
+/**
+ * @param archiveFile - path to the JSON file to write
+ * @param archive - archive to write
+ */
+export async function writeSnapshotArchive(
+    archiveFile: FilePath, archive: SnapshotArchive) {
+  await writeFileP(archiveFile, JSON.stringify(archive, null, 2));
+}
@@ -0,0 +1,225 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+
+// Members nested deeper than this are not compared.
+const MAX_DIFF_DEPTH = 10;
+
+export type VariableChangeKind = 'added'|'removed'|'changed';
+
+export interface VariableChange {
+  kind: VariableChangeKind;
+  // Path of the variable from the frame, e.g. `request.headers.host`.
+  path: string;
+  before?: string;
+  after?: string;
+}
+
+export interface FrameDiff {
+  index: number;
+  functionName: string;
+  changeList: VariableChange[];
+}
+
+/**
+ * Differences between the variables of two snapshots, frame by frame from
+ * the innermost frame.
+ */
+export interface SnapshotDiff {
+  beforeId: stackdriver.BreakpointId;
+  afterId: stackdriver.BreakpointId;
+  frameDiffList: FrameDiff[];
+}
+
+/*
+ * Variables of a snapshot after following their variable table references,
+ * which is what `loadSnapshot` shows in the Scope pane.
+ */
+interface ResolvedVariable {
+  value: string;
+  memberList: stackdriver.Variable[];
+}
+
+/*
+ * @param snapshot - captured snapshot which holds the variable table
+ * @param variable - variable which may reference the variable table
+ * @returns value and members of the variable
+ */
+function resolveVariable(
+    snapshot: stackdriver.CapturedSnapshot,
+    variable: stackdriver.Variable): ResolvedVariable {
+  let value = variable.value;
+  let memberList = variable.members || [];
+  const variableTable = snapshot.variableTable || [];
+  if (variable.varTableIndex !== undefined && variable.varTableIndex !== null &&
+      variableTable[variable.varTableIndex]) {
+    const tableVariable = variableTable[variable.varTableIndex];
+    value = value || tableVariable.value;
+    memberList = memberList.concat(tableVariable.members || []);
+  }
+  if (value === undefined || value === null) {
+    value = variable.status && variable.status.description ?
+        `<${variable.status.description.format}>` :
+        variable.type || '';
+  }
+  return {value, memberList};
+}
+
+/*
+ * @param variableList - variables of a frame or members of an object
+ * @returns variables by name, where the first of the same name wins
+ */
+function toVariableMap(variableList: stackdriver.Variable[]):
+    Map<string, stackdriver.Variable> {
+  const variableMap = new Map<string, stackdriver.Variable>();
+  for (const variable of variableList) {
+    const name = variable.name || '';
+    if (!variableMap.has(name)) {
+      variableMap.set(name, variable);
+    }
+  }
+  return variableMap;
+}
+
+/*
+ * Compares two lists of variables, recursing into their members.
+ *
+ * @param before - snapshot of the variables in `beforeList`
+ * @param after - snapshot of the variables in `afterList`
+ * @param path - path of the object with these members, or '' for a frame
+ * @param depth - number of objects above these variables
+ * @param comparedSet - pairs of variable table indexes which were compared,
+ * so that cyclic and shared objects are only compared once
+ * @param changeList - list to which the changes are appended
+ */
+function diffVariableList(
+    before: stackdriver.CapturedSnapshot, beforeList: stackdriver.Variable[],
+    after: stackdriver.CapturedSnapshot, afterList: stackdriver.Variable[],
+    path: string, depth: number, comparedSet: Set<string>,
+    changeList: VariableChange[]) {
+  const beforeMap = toVariableMap(beforeList);
+  const afterMap = toVariableMap(afterList);
+  beforeMap.forEach((beforeVariable: stackdriver.Variable, name: string) => {
+    const variablePath = path ? `${path}.${name}` : name;
+    const beforeResolved = resolveVariable(before, beforeVariable);
+    const afterVariable = afterMap.get(name);
+    if (!afterVariable) {
+      changeList.push(
+          {kind: 'removed', path: variablePath, before: beforeResolved.value});
+      return;
+    }
+    const afterResolved = resolveVariable(after, afterVariable);
+    if (beforeResolved.value !== afterResolved.value) {
+      changeList.push({
+        kind: 'changed',
+        path: variablePath,
+        before: beforeResolved.value,
+        after: afterResolved.value,
+      });
+    }
+    const comparedKey =
+        `${beforeVariable.varTableIndex}:${afterVariable.varTableIndex}`;
+    const isTableObject = typeof beforeVariable.varTableIndex === 'number' &&
+        typeof afterVariable.varTableIndex === 'number';
+    if (depth >= MAX_DIFF_DEPTH ||
+        (isTableObject && comparedSet.has(comparedKey))) {
+      return;
+    }
+    if (isTableObject) {
+      comparedSet.add(comparedKey);
+    }
+    diffVariableList(
+        before, beforeResolved.memberList, after, afterResolved.memberList,
+        variablePath, depth + 1, comparedSet, changeList);
+  });
+  afterMap.forEach((afterVariable: stackdriver.Variable, name: string) => {
+    if (!beforeMap.has(name)) {
+      changeList.push({
+        kind: 'added',
+        path: path ? `${path}.${name}` : name,
+        after: resolveVariable(after, afterVariable).value,
+      });
+    }
+  });
+}
+
+/**
+ * Compares the arguments and locals of two snapshots, e.g. of the same
+ * breakpoint captured twice, frame by frame from the innermost frame.
+ *
+ * @param before - snapshot to compare against
+ * @param after - snapshot whose changes are reported
+ * @returns differences between the snapshots
+ */
+export function diffSnapshots(
+    before: stackdriver.CapturedSnapshot,
+    after: stackdriver.CapturedSnapshot): SnapshotDiff {
+  const beforeFrameList = before.stackFrames || [];
+  const afterFrameList = after.stackFrames || [];
+  const frameDiffList: FrameDiff[] = [];
+  const frameCount = Math.max(beforeFrameList.length, afterFrameList.length);
+  for (let i = 0; i < frameCount; i++) {
+    const beforeFrame = beforeFrameList[i];
+    const afterFrame = afterFrameList[i];
+    const changeList: VariableChange[] = [];
+    diffVariableList(
+        before,
+        beforeFrame ?
+            (beforeFrame.arguments || []).concat(beforeFrame.locals || []) :
+            [],
+        after,
+        afterFrame ?
+            (afterFrame.arguments || []).concat(afterFrame.locals || []) :
+            [],
+        '', 0, new Set<string>(), changeList);
+    if (changeList.length > 0) {
+      frameDiffList.push({
+        index: i,
+        functionName: (afterFrame || beforeFrame).function,
+        changeList,
+      });
+    }
+  }
+  return {beforeId: before.id, afterId: after.id, frameDiffList};
+}
+
+/**
+ * @param diff - differences between two snapshots
+ * @returns report of the differences, with one line per change
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const lineList = [`Snapshot ${diff.beforeId} -> ${diff.afterId}`];
+  if (diff.frameDiffList.length === 0) {
+    lineList.push('  No differences.');
+  }
+  for (const frameDiff of diff.frameDiffList) {
+    lineList.push(`  Frame ${frameDiff.index}: ${frameDiff.functionName}`);
+    for (const change of frameDiff.changeList) {
+      switch (change.kind) {
+        case 'added':
+          lineList.push(`    + ${change.path} = ${change.after}`);
+          break;
+        case 'removed':
+          lineList.push(`    - ${change.path} = ${change.before}`);
+          break;
+        default:
+          lineList.push(
+              `    ~ ${change.path}: ${change.before} -> ${change.after}`);
+      }
+    }
+  }
+  return lineList.join('\n');
+}
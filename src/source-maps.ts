@@ -0,0 +1,149 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as fs from 'fs';
+import * as globby from 'globby';
+import * as path from 'path';
+import {MappingItem, RawSourceMap, SourceMapConsumer} from 'source-map';
+import * as util from 'util';
+import {loggers} from 'winston';
+
+const readFileP = util.promisify(fs.readFile);
+
+type FilePath = string;
+
+// Position in a file with a one-indexed line, as in Stackdriver Debug.
+export interface FilePosition {
+  path: FilePath;
+  line: stackdriver.OneIndexedLineNumber;
+}
+
+// Maps each line in one file to a line in another file.
+type LineMap = Map<stackdriver.OneIndexedLineNumber, FilePosition>;
+
+/**
+ * Translates positions between original sources, such as TypeScript files,
+ * and the JavaScript generated from them, using the source maps written
+ * next to the generated files, e.g. `build/src/index.js.map`.
+ */
+export class SourceMapper {
+  // TODO: get() does not exist yet, will be resolved in Winston 3.1
+  // https://github.com/winstonjs/winston/issues/1361
+  // tslint:disable-next-line no-any
+  private readonly logger = (loggers as any).get('devtools-logger');
+  private readonly generatedToOriginalMap = new Map<FilePath, LineMap>();
+  private readonly originalToGeneratedMap = new Map<FilePath, LineMap>();
+  private loadPromise?: Promise<void>;
+
+  /**
+   * @param sourceDirectory - path to the root directory with all the source
+   * code and the source maps of the generated code
+   */
+  constructor(private readonly sourceDirectory: FilePath) {}
+
+  /** Reads every source map in the source directory, once. */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadSourceMaps();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadSourceMaps() {
+    let mapPathList: FilePath[];
+    try {
+      mapPathList = await globby(
+          ['**/*.js.map', '!**/node_modules/**'], {cwd: this.sourceDirectory});
+    } catch (error) {
+      this.logger.warn({
+        origin: 'sourcemap-init',
+        message: `Could not search ${this.sourceDirectory} for source maps: ` +
+            error.message,
+      });
+      return;
+    }
+    await Promise.all(mapPathList.map(async (mapPath: FilePath) => {
+      const absoluteMapPath = path.resolve(this.sourceDirectory, mapPath);
+      let consumer: SourceMapConsumer;
+      try {
+        const rawSourceMap: RawSourceMap =
+            JSON.parse(await readFileP(absoluteMapPath, 'utf8'));
+        consumer = new SourceMapConsumer(rawSourceMap);
+      } catch (error) {
+        this.logger.warn({
+          origin: 'sourcemap-parse',
+          message:
+              `Could not parse the source map ${absoluteMapPath}: ${error}`,
+        });
+        return;
+      }
+      const generatedPath =
+          absoluteMapPath.substring(0, absoluteMapPath.length - '.map'.length);
+      const generatedLineMap: LineMap = new Map();
+      this.generatedToOriginalMap.set(generatedPath, generatedLineMap);
+      // Mappings are visited in the order of their generated positions, so
+      // every line keeps the mapping to the earliest line in the other file.
+      consumer.eachMapping((mapping: MappingItem) => {
+        if (!mapping.source) {
+          return;
+        }
+        const originalPath =
+            path.resolve(path.dirname(absoluteMapPath), mapping.source);
+        if (!generatedLineMap.has(mapping.generatedLine)) {
+          generatedLineMap.set(
+              mapping.generatedLine,
+              {path: originalPath, line: mapping.originalLine});
+        }
+        let originalLineMap = this.originalToGeneratedMap.get(originalPath);
+        if (!originalLineMap) {
+          originalLineMap = new Map();
+          this.originalToGeneratedMap.set(originalPath, originalLineMap);
+        }
+        if (!originalLineMap.has(mapping.originalLine)) {
+          originalLineMap.set(
+              mapping.originalLine,
+              {path: generatedPath, line: mapping.generatedLine});
+        }
+      });
+    }));
+    this.logger.verbose({
+      origin: 'sourcemap-init',
+      message: `Loaded ${this.generatedToOriginalMap.size} source maps.`,
+    });
+  }
+
+  /**
+   * @param original - position in an original source file
+   * @returns position in the generated file, or null if it is not mapped
+   */
+  async originalToGenerated(original: FilePosition):
+      Promise<FilePosition|null> {
+    await this.load();
+    const originalLineMap = this.originalToGeneratedMap.get(original.path);
+    return originalLineMap && originalLineMap.get(original.line) || null;
+  }
+
+  /**
+   * @param generated - position in a generated file
+   * @returns position in the original source, or null if it is not mapped
+   */
+  async generatedToOriginal(generated: FilePosition):
+      Promise<FilePosition|null> {
+    await this.load();
+    const generatedLineMap = this.generatedToOriginalMap.get(generated.path);
+    return generatedLineMap && generatedLineMap.get(generated.line) || null;
+  }
+}
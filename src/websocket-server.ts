@@ -18,13 +18,27 @@ import {loggers} from 'winston';
 import * as WebSocket from 'ws';
 import * as devtools from './adapter';
 import {parseScripts} from './parse-scripts';
+import {ProtocolError} from './protocol-error';
+import {SessionManager} from './session';
+import {parseSnapshotArchive} from './snapshot-archive';
+import {formatSnapshotDiff} from './snapshot-diff';
 
 interface ExtensionMessage {
   name: string;
   data: string;
 }
 
-export function serveDevTools(server: http.Server, adapter: devtools.Adapter) {
+/**
+ * @param server - HTTP server to which DevTools connects
+ * @param sessionManager - sessions of the adapter which processes the
+ * requests from DevTools
+ * @param initialSnapshotId - ID of a snapshot to load once DevTools first
+ * connects, e.g. one imported from an archive on the command line
+ */
+export function serveDevTools(
+    server: http.Server, sessionManager: SessionManager,
+    initialSnapshotId?: string) {
+  const adapter = sessionManager.adapter;
   // TODO: get() does not exist yet, will be resolved in Winston 3.1
   // https://github.com/winstonjs/winston/issues/1361
   // tslint:disable-next-line no-any
@@ -40,12 +54,22 @@ export function serveDevTools(server: http.Server, adapter: devtools.Adapter) {
       origin: 'wsdevtools-init',
       message: 'Initialization complete. Listening for WebSocket messages...',
     });
+    const session = sessionManager.open();
+    ws.on('close', () => sessionManager.close(session));
+    // Messages to a closing socket, e.g. after a switch of the debuggee or
+    // once an awaited request completes, are dropped since `send` throws.
     function sendEvent(messageObject: devtools.MessageEvent) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
       const message = JSON.stringify(messageObject);
       logger.verbose({origin: 'wsdevtools-event', message});
       ws.send(message);
     }
     function sendResponse(messageObject: devtools.MessageResponse) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
       const message = JSON.stringify(messageObject);
       logger.verbose({origin: 'wsdevtools-response', message});
       ws.send(message);
@@ -54,24 +78,53 @@ export function serveDevTools(server: http.Server, adapter: devtools.Adapter) {
       logger.verbose({origin: 'wsdevtools-request', message});
       const request: devtools.MessageRequest = JSON.parse(message);
       try {
-        const result = await adapter.processRequest(request);
+        const result = await adapter.processRequest(request, session.id);
         sendResponse({id: request.id, result});
       } catch (error) {
         logger.error({
           origin: 'wsdevtools-error',
           message: error.stack,
         });
+        // DevTools waits for a response to every request, even failed ones.
+        sendResponse({
+          id: request.id,
+          error: ProtocolError.from(error).toMessageError(),
+        });
       }
     });
-    adapter.on('resume', () => sendEvent({method: 'Debugger.resumed'}));
-    adapter.on('loadSnapshot', async (snapshotId) => {
-      sendEvent({
-        method: 'Debugger.paused',
-        params: await adapter.loadSnapshot(snapshotId),
-      });
+    session.listen(
+        adapter, 'resume', () => sendEvent({method: 'Debugger.resumed'}));
+    session.listen(adapter, 'consoleAPICalled', (params, excludedSessionId) => {
+      if (excludedSessionId !== session.id) {
+        sendEvent({method: 'Runtime.consoleAPICalled', params});
+      }
     });
-    await parseScripts(sendEvent, adapter.getSourceDirectory());
-    await adapter.pollForPendingBreakpoints();
+    // DevTools has no event to remove breakpoints, so it reconnects instead,
+    // and then sets its breakpoints again.
+    session.listen(
+        adapter, 'switchDebuggee',
+        (debuggeeId) =>
+            ws.close(1000, `Switched to the debuggee ${debuggeeId}`));
+    // Snapshots are loaded once for all sessions, which show the same one.
+    session.listen(
+        sessionManager, 'paused',
+        (params) => sendEvent({method: 'Debugger.paused', params}));
+    adapter.setScriptIdList(
+        await parseScripts(sendEvent, adapter.getSourceDirectory()));
+    // Show the breakpoints which were set before this connection.
+    for (const params of await adapter.getPendingBreakpointResolvedList()) {
+      sendEvent({method: 'Debugger.breakpointResolved', params});
+    }
+    for (const params of adapter.getAdoptedBreakpointMessageList()) {
+      sendEvent({method: 'Runtime.consoleAPICalled', params});
+    }
+    const pausedEvent = sessionManager.getPausedEvent();
+    if (initialSnapshotId) {
+      adapter.emitLoadSnapshot(initialSnapshotId);
+      initialSnapshotId = undefined;
+    } else if (pausedEvent) {
+      sendEvent({method: 'Debugger.paused', params: pausedEvent});
+    }
   });
   wss.on('error', (error: NodeJS.ErrnoException) => {
     logger.error({
@@ -81,7 +134,12 @@ export function serveDevTools(server: http.Server, adapter: devtools.Adapter) {
   });
 }
 
-export function serveExtension(port: number, adapter: devtools.Adapter) {
+/**
+ * @param port - port to which the Snapshot Explorer connects
+ * @param sessionManager - sessions of the adapter which DevTools uses
+ */
+export function serveExtension(port: number, sessionManager: SessionManager) {
+  const adapter = sessionManager.adapter;
   // TODO: get() does not exist yet, will be resolved in Winston 3.1
   // https://github.com/winstonjs/winston/issues/1361
   // tslint:disable-next-line no-any
@@ -96,37 +154,98 @@ export function serveExtension(port: number, adapter: devtools.Adapter) {
       origin: 'wsextension-init',
       message: 'Initialization complete. Listening for WebSocket messages...',
     });
+    const session = sessionManager.open();
+    ws.on('close', () => sessionManager.close(session));
+    function sendMessage(name: string, data: {}) {
+      // The socket may close while a request is awaited, and `send` throws.
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      const message = JSON.stringify({name, data});
+      logger.verbose({
+        origin: 'wsextension-request',
+        message: `Sending:  ${message}`,
+      });
+      ws.send(message);
+    }
     ws.on('message', async (message: string) => {
       logger.verbose({
         origin: 'wsextension-response',
         message: `Received: ${message}`,
       });
       const request: ExtensionMessage = JSON.parse(message);
-      switch (request.name) {
-        case 'initialized':
-          adapter.emitUpdateBreakpointList();
-          break;
-        case 'acknowledged':
-          break;
-        case 'loadSnapshot':
-          adapter.emitLoadSnapshot(request.data);
-          break;
-        default:
-          logger.error({
-            origin: 'wsextension-request',
-            message: `Received unknown request: ${message}`,
-          });
+      try {
+        switch (request.name) {
+          case 'initialized':
+            adapter.emitUpdateBreakpointList();
+            sendMessage(
+                'breakpointSetList', await adapter.listBreakpointSets());
+            sendMessage('debuggeeList', await adapter.listDebuggees());
+            sendMessage('pollerHealth', sessionManager.poller.getHealth());
+            break;
+          case 'acknowledged':
+            break;
+          case 'loadSnapshot':
+            adapter.emitLoadSnapshot(request.data);
+            break;
+          case 'exportSnapshot':
+            sendMessage(
+                'snapshotArchive', await adapter.exportSnapshot(request.data));
+            break;
+          case 'importSnapshot':
+            adapter.emitLoadSnapshot(
+                adapter.importSnapshot(parseSnapshotArchive(request.data)));
+            break;
+          case 'removeBreakpoint':
+            await adapter.removeBreakpoint(request.data);
+            break;
+          case 'repeatBreakpoint':
+            const {breakpointId, maxHitCount} = JSON.parse(request.data);
+            await adapter.repeatBreakpoint(breakpointId, {maxHitCount});
+            break;
+          case 'saveBreakpointSet':
+            await adapter.saveBreakpointSet(request.data);
+            sendMessage(
+                'breakpointSetList', await adapter.listBreakpointSets());
+            break;
+          case 'applyBreakpointSet':
+            await adapter.applyBreakpointSet(request.data);
+            break;
+          case 'listDebuggees':
+            sendMessage('debuggeeList', await adapter.listDebuggees());
+            break;
+          case 'switchDebuggee':
+            await adapter.switchDebuggee(request.data);
+            sendMessage('debuggeeList', await adapter.listDebuggees());
+            sendMessage(
+                'breakpointSetList', await adapter.listBreakpointSets());
+            break;
+          case 'diffSnapshots':
+            const {beforeId, afterId} = JSON.parse(request.data);
+            const diff = await adapter.diffSnapshots(beforeId, afterId);
+            sendMessage('snapshotDiff', {diff, text: formatSnapshotDiff(diff)});
+            break;
+          default:
+            logger.error({
+              origin: 'wsextension-request',
+              message: `Received unknown request: ${message}`,
+            });
+        }
+      } catch (error) {
+        logger.error({
+          origin: 'wsextension-error',
+          message: error.stack,
+        });
+        sendMessage('error', error.message);
       }
     });
-    adapter.on('updateBreakpointList', (breakpointInfoLists) => {
-      const message = JSON.stringify(
-          {name: 'updateBreakpointInfoLists', data: breakpointInfoLists});
-      logger.verbose({
-        origin: 'wsextension-request',
-        message: `Sending:  ${message}`,
-      });
-      ws.send(message);
-    });
+    session.listen(
+        sessionManager.poller, 'health',
+        (health) => sendMessage('pollerHealth', health));
+    session.listen(
+        adapter, 'updateBreakpointList',
+        (breakpointInfoLists) =>
+            sendMessage('updateBreakpointInfoLists', breakpointInfoLists));
   });
   wss.on('error', (error: NodeJS.ErrnoException) => {
     logger.error({
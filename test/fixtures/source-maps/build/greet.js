@@ -0,0 +1,8 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+function greet(person) {
+    const greeting = `Hello, ${person.name}!`;
+    return greeting;
+}
+exports.greet = greet;
+//# sourceMappingURL=greet.js.map
\ No newline at end of file
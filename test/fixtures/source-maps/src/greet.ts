@@ -0,0 +1,8 @@
+interface Person {
+  name: string;
+}
+
+export function greet(person: Person): string {
+  const greeting = `Hello, ${person.name}!`;
+  return greeting;
+}
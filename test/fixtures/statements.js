@@ -0,0 +1,9 @@
+// This file is parsed by the tests for getPossibleBreakpoints.
+
+function add(a, b) {
+
+  const sum = a + b;
+  return sum;
+}
+
+module.exports = {add};
@@ -15,11 +15,16 @@
  */
 import * as stackdriver from '@google-cloud/debug-proxy-common';
 import * as assert from 'assert';
-import {Debugger} from 'inspector';
+import * as fs from 'fs';
+import {Debugger, Runtime} from 'inspector';
 import * as nock from 'nock';
+import * as os from 'os';
+import * as path from 'path';
 import {loggers} from 'winston';
 import * as devtools from '../src/adapter';
+import {LogReader} from '../src/log-reader';
 import {setupLogger} from '../src/logger';
+import {ErrorCode, ProtocolError} from '../src/protocol-error';
 import * as nocks from './nocks';
 
 const assertRejects = require('assert-rejects');
@@ -30,6 +35,7 @@ const BREAKPOINT_ID = 'test-breakpoint-id';
 const SOURCE_DIRECTORY = 'source-directory';
 const SOURCE_URL = 'source-url';
 const SOURCE_PATH = '/home/test/source/path';
+const STATEMENTS_PATH = path.resolve('test/fixtures/statements.js');
 const STACKDRIVER_URL = 'https://clouddebugger.googleapis.com';
 const API_URL = '/v2/debugger';
 
@@ -64,13 +70,15 @@ function nockDebuggeesBreakpointsList(): NockObject {
   return {scope, interceptor: scope.get(url)};
 }
 
-function nockDebuggeesBreakpointsSet(): NockObject {
+function nockDebuggeesBreakpointsSet(
+    requestBody?: stackdriver.BreakpointRequest): NockObject {
   const scope = nock(STACKDRIVER_URL);
   const url = API_URL + `/debuggees/${DEBUGGEE_ID}/breakpoints/set`;
-  return {scope, interceptor: scope.post(url)};
+  return {scope, interceptor: scope.post(url, requestBody)};
 }
 
 describe('adapter.ts', () => {
+  let debugProxy: stackdriver.DebugProxy;
   let adapter: devtools.Adapter;
   let logger;
 
@@ -83,7 +91,7 @@ describe('adapter.ts', () => {
   });
 
   beforeEach(async () => {
-    const debugProxy = new stackdriver.DebugProxy({
+    debugProxy = new stackdriver.DebugProxy({
       debuggerId: DEBUGGER_ID,
       sourceDirectory: SOURCE_DIRECTORY,
     });
@@ -129,8 +137,7 @@ describe('adapter.ts', () => {
          },
        })));
 
-    // TODO: implement urlRegex, then remove this test
-    it('should throw on invalid request with urlRegex',
+    it('should throw on invalid request with empty urlRegex',
        () => assertRejects(adapter.processRequest({
          id: 0,
          method: 'Debugger.setBreakpointByUrl',
@@ -165,11 +172,13 @@ describe('adapter.ts', () => {
       }) as Debugger.SetBreakpointByUrlReturnType;
       assert(
           response.breakpointId && typeof response.breakpointId === 'string');
-      assert.deepStrictEqual(response.locations, [{
-                               scriptId: SOURCE_URL,
-                               lineNumber: 0,
-                               columnNumber: 0,
-                             }]);
+      // Relative paths from Stackdriver are resolved in the source directory.
+      assert.deepStrictEqual(
+          response.locations, [{
+            scriptId: path.resolve(SOURCE_DIRECTORY, SOURCE_URL),
+            lineNumber: 0,
+            columnNumber: 0,
+          }]);
       scope.done();
       oauthScope.done();
     });
@@ -208,6 +217,1648 @@ describe('adapter.ts', () => {
       scope.done();
       oauthScope.done();
     });
+
+    it('should set logpoints as LOG breakpoints', async () => {
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.LOG,
+        location: {
+          path: SOURCE_PATH,
+          line: 42 + 1,
+        },
+        logMessageFormat: 'user $0 costs $$ $1',
+        expressions: ['user.id', 'cart.total(1, 2)'],
+        logLevel: 'INFO',
+      });
+      interceptor.reply(200, {
+        breakpoint: {
+          action: stackdriver.Action.LOG,
+          id: BREAKPOINT_ID,
+          location: {
+            path: SOURCE_PATH,
+            line: 42 + 1,
+          },
+        },
+      });
+      const consoleMessageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on('consoleAPICalled', (params, excludedSessionId) => {
+        // The other sessions are told that the logpoint was set.
+        if (excludedSessionId === undefined) {
+          consoleMessageList.push(params);
+        }
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 42,
+          url: SOURCE_PATH,
+          condition: '/** DEVTOOLS_LOGPOINT */ console.log(' +
+              '\'user\', user.id, "costs $", cart.total(1, 2))',
+        }
+      });
+      // The output is only relayed once the logpoint writes it.
+      assert.strictEqual(consoleMessageList.length, 0);
+      scope.done();
+      oauthScope.done();
+    });
+
+    it('should log console.warn logpoints as warnings', async () => {
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.LOG,
+        location: {path: SOURCE_PATH, line: 42 + 1},
+        logMessageFormat: 'retry $0',
+        expressions: ['count'],
+        logLevel: 'WARNING',
+      });
+      interceptor.reply(200, {
+        breakpoint: {
+          action: stackdriver.Action.LOG,
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 42 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 42,
+          url: SOURCE_PATH,
+          condition: 'console.warn(\'retry\', count)',
+        }
+      });
+      scope.done();
+      oauthScope.done();
+    });
+
+    it('should relay the output of logpoints to the console', async () => {
+      const logReaderOauthScope = nocks.oauth2();
+      adapter = new devtools.Adapter(debugProxy, {
+        logReader: await LogReader.create(
+            'keyfile-project-id', './test/fixtures/keyfile.json'),
+      });
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet();
+      interceptor.reply(200, {
+        breakpoint: {
+          action: stackdriver.Action.LOG,
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 42 + 1},
+          logMessageFormat: 'retry $0',
+          expressions: ['count'],
+          logLevel: 'WARNING',
+        },
+      });
+      const loggingScope = nock('https://logging.googleapis.com')
+                               .post('/v2/entries:list')
+                               .reply(200, {
+                                 entries: [
+                                   {
+                                     insertId: 'a',
+                                     timestamp: '2018-08-01T00:00:01Z',
+                                     textPayload: 'LOGPOINT: unrelated 1',
+                                   },
+                                   {
+                                     insertId: 'b',
+                                     timestamp: '2018-08-01T00:00:02Z',
+                                     textPayload: 'LOGPOINT: retry 3',
+                                   },
+                                 ],
+                               });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 42,
+          url: SOURCE_PATH,
+          condition: 'console.warn(\'retry\', count)',
+        }
+      });
+      const consoleMessageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on(
+          'consoleAPICalled', (params) => consoleMessageList.push(params));
+      await adapter.relayLogpointOutput();
+      assert.strictEqual(consoleMessageList.length, 1);
+      assert.strictEqual(consoleMessageList[0].type, 'warning');
+      assert.deepStrictEqual(
+          consoleMessageList[0].args, [{type: 'string', value: 'retry 3'}]);
+      assert.strictEqual(
+          consoleMessageList[0].stackTrace!.callFrames[0].lineNumber, 42);
+      scope.done();
+      loggingScope.done();
+      logReaderOauthScope.done();
+      oauthScope.done();
+    });
+
+    it('should set breakpoints in every script matching urlRegex', async () => {
+      adapter.setScriptIdList(
+          ['/src/a/index.js', '/src/b/index.js', '/src/b/index.ts']);
+      const scopeList = ['/src/a/index.js', '/src/b/index.js'].map(
+          (scriptId: string, index: number) => {
+            const {scope, interceptor} = nockDebuggeesBreakpointsSet({
+              action: stackdriver.Action.CAPTURE,
+              location: {path: scriptId, line: 7 + 1},
+            });
+            interceptor.reply(200, {
+              breakpoint: {
+                id: `${BREAKPOINT_ID}-${index}`,
+                location: {path: scriptId, line: 7 + 1},
+              },
+            });
+            return scope;
+          });
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 7,
+          urlRegex: 'index\\.js$',
+        }
+      }) as Debugger.SetBreakpointByUrlReturnType;
+      assert.deepStrictEqual(response.locations, [
+        {scriptId: '/src/a/index.js', lineNumber: 7, columnNumber: 0},
+        {scriptId: '/src/b/index.js', lineNumber: 7, columnNumber: 0},
+      ]);
+      scopeList.forEach((scope: nock.Scope) => scope.done());
+
+      const deleteScopeList = [0, 1].map((index: number) => {
+        const {scope, interceptor} =
+            nockDebuggeesBreakpointsDelete(`${BREAKPOINT_ID}-${index}`);
+        interceptor.reply(200, {});
+        return scope;
+      });
+      await adapter.processRequest({
+        id: 1,
+        method: 'Debugger.removeBreakpoint',
+        params: {breakpointId: response.breakpointId},
+      });
+      deleteScopeList.forEach((scope: nock.Scope) => scope.done());
+      oauthScope.done();
+    });
+
+    it('should set the breakpoints of a urlRegex all or none', async () => {
+      adapter.setScriptIdList(['/src/a/index.js', '/src/b/index.js']);
+      const setNock = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.CAPTURE,
+        location: {path: '/src/a/index.js', line: 7 + 1},
+      });
+      setNock.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: '/src/a/index.js', line: 7 + 1},
+        },
+      });
+      const failedSetNock = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.CAPTURE,
+        location: {path: '/src/b/index.js', line: 7 + 1},
+      });
+      failedSetNock.interceptor.reply(400, {
+        error: {code: 400, message: 'Invalid breakpoint location'},
+      });
+      const deleteNock = nockDebuggeesBreakpointsDelete(BREAKPOINT_ID);
+      deleteNock.interceptor.reply(200, {});
+      const request = {
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 7, urlRegex: 'index\\.js$'},
+      };
+      await assertRejects(adapter.processRequest(request));
+      assert.deepStrictEqual(debugProxy.getSnapshotIdList(false), []);
+      [setNock, failedSetNock, deleteNock].forEach(({scope}) => scope.done());
+      oauthScope.done();
+
+      // The failed request can be made again, but not a successful one.
+      adapter.setScriptIdList(['/src/a/index.js']);
+      nockDebuggeesBreakpointsSet().interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: '/src/a/index.js', line: 7 + 1},
+        },
+      });
+      await adapter.processRequest(request);
+      await assertRejects(
+          adapter.processRequest(request),
+          /Breakpoint at specified location already exists/);
+    });
+  });
+
+  describe('sessions', () => {
+    afterEach(() => nock.cleanAll());
+
+    it('should tell the other sessions of breakpoint changes', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNock = nockDebuggeesBreakpointsSet();
+      setNock.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 9 + 1},
+        },
+      });
+      const deleteNock = nockDebuggeesBreakpointsDelete(BREAKPOINT_ID);
+      deleteNock.interceptor.reply(200, {});
+      const messageList: Array<[string, number]> = [];
+      adapter.on(
+          'consoleAPICalled',
+          (params: Runtime.ConsoleAPICalledEventDataType,
+           excludedSessionId: number) =>
+              messageList.push([params.args[0].value, excludedSessionId]));
+      await adapter.processRequest(
+          {
+            id: 0,
+            method: 'Debugger.setBreakpointByUrl',
+            params: {lineNumber: 9, url: SOURCE_PATH},
+          },
+          1);
+      const removeRequest = {
+        id: 1,
+        method: 'Debugger.removeBreakpoint',
+        params: {breakpointId: BREAKPOINT_ID},
+      };
+      await adapter.processRequest(removeRequest, 2);
+      // The first session still shows the breakpoint, and removes it too.
+      await adapter.processRequest(removeRequest, 1);
+      assert.deepStrictEqual(messageList, [
+        [`Breakpoint at ${SOURCE_PATH}:10 was set in another session.`, 1],
+        [
+          `Breakpoint at ${SOURCE_PATH}:10 was removed in another session. ` +
+              'Remove it here too, if it is still shown.',
+          2,
+        ],
+      ]);
+      setNock.scope.done();
+      deleteNock.scope.done();
+      oauthScope.done();
+    });
+  });
+
+  describe('getPendingBreakpointResolvedList', () => {
+    it('should resolve the pending breakpoints', async () => {
+      const oauthScope = nocks.oauth2();
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet();
+      interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 9 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 9, url: SOURCE_PATH},
+      });
+      assert.deepStrictEqual(
+          await adapter.getPendingBreakpointResolvedList(), [{
+            breakpointId: BREAKPOINT_ID,
+            location: {
+              scriptId: SOURCE_PATH,
+              lineNumber: 9,
+              columnNumber: 0,
+            },
+          }]);
+      assert.deepStrictEqual(adapter.getAdoptedBreakpointMessageList(), []);
+      scope.done();
+      oauthScope.done();
+      nock.cleanAll();
+    });
+
+    it('should not list the breakpoints set by other clients', async () => {
+      const listNock = nockDebuggeesBreakpointsList();
+      listNock.interceptor.query(true).reply(200, {
+        nextWaitToken: 'token',
+        breakpoints: [{
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 9 + 1},
+        }],
+      });
+      assert.deepStrictEqual(
+          await adapter.getPendingBreakpointResolvedList(), []);
+      assert.deepStrictEqual(adapter.getAdoptedBreakpointMessageList(), []);
+      assert(!listNock.scope.isDone());
+      nock.cleanAll();
+    });
+  });
+
+  describe('updatePendingBreakpoints', () => {
+    it('should report failed breakpoints', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNock = nockDebuggeesBreakpointsSet();
+      setNock.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 9 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 9, url: SOURCE_PATH, condition: 'x >'},
+      });
+      const listNock = nockDebuggeesBreakpointsList();
+      listNock.interceptor.query(true).reply(200, {nextWaitToken: 'token'});
+      const getNock = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNock.interceptor.twice().reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 9 + 1},
+          isFinalState: true,
+          status: {
+            isError: true,
+            refersTo: 'BREAKPOINT_CONDITION',
+            description: {
+              format: 'Expression not valid: $0',
+              parameters: ['x >'],
+            },
+          },
+        },
+      });
+      const consoleMessageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on(
+          'consoleAPICalled',
+          (params: Runtime.ConsoleAPICalledEventDataType) =>
+              consoleMessageList.push(params));
+      let capturedSnapshotInfoList: Array<{}> = [];
+      adapter.on('updateBreakpointList', (breakpointInfoLists) => {
+        capturedSnapshotInfoList = breakpointInfoLists.capturedSnapshotInfoList;
+      });
+      await adapter.updatePendingBreakpoints(false);
+      assert.strictEqual(consoleMessageList.length, 1);
+      assert.strictEqual(consoleMessageList[0].type, 'error');
+      assert.strictEqual(
+          consoleMessageList[0].args[0].value,
+          `Breakpoint at ${SOURCE_PATH}:10 failed: Expression not valid: x >`);
+      assert.deepStrictEqual(capturedSnapshotInfoList, [{
+                               name: `${SOURCE_PATH}:10`,
+                               id: BREAKPOINT_ID,
+                               failure: 'Expression not valid: x >',
+                             }]);
+      setNock.scope.done();
+      listNock.scope.done();
+      getNock.scope.done();
+      oauthScope.done();
+      nock.cleanAll();
+    });
+  });
+
+  describe('repeating breakpoints', () => {
+    afterEach(() => nock.cleanAll());
+
+    it('should set the breakpoint again after each snapshot', async () => {
+      const oauthScope = nocks.oauth2();
+      const request = {
+        action: stackdriver.Action.CAPTURE,
+        location: {path: SOURCE_PATH, line: 9 + 1},
+        condition: 'x > 1',
+      };
+      const setNock = nockDebuggeesBreakpointsSet(request);
+      setNock.interceptor.reply(200, {
+        breakpoint: {id: BREAKPOINT_ID, location: request.location},
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 9,
+          url: SOURCE_PATH,
+          condition: '/* repeat 2 */ x > 1',
+        },
+      });
+      const listNock = nockDebuggeesBreakpointsList();
+      listNock.interceptor.query(true).reply(200, {nextWaitToken: 'token'});
+      const getNock = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNock.interceptor.twice().reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: request.location,
+          isFinalState: true,
+        },
+      });
+      const repeatedSetNock = nockDebuggeesBreakpointsSet(request);
+      repeatedSetNock.interceptor.reply(200, {
+        breakpoint: {id: `${BREAKPOINT_ID}-2`, location: request.location},
+      });
+      let breakpointInfoLists = {
+        pendingBreakpointInfoList: [],
+        capturedSnapshotInfoList: [],
+      };
+      adapter.on('updateBreakpointList', (lists) => {
+        breakpointInfoLists = lists;
+      });
+      await adapter.updatePendingBreakpoints(false);
+      assert.deepStrictEqual(breakpointInfoLists, {
+        pendingBreakpointInfoList: [{
+          name: `${SOURCE_PATH}:10 (1 snapshot)`,
+          id: `${BREAKPOINT_ID}-2`,
+          snapshotIdList: [BREAKPOINT_ID],
+        }],
+        capturedSnapshotInfoList: [{
+          name: `${SOURCE_PATH}:10 (1 snapshot)`,
+          id: BREAKPOINT_ID,
+          snapshotIdList: [BREAKPOINT_ID],
+        }],
+      });
+      const resolvedList = await adapter.getPendingBreakpointResolvedList();
+      assert.strictEqual(resolvedList[0].breakpointId, BREAKPOINT_ID);
+      setNock.scope.done();
+      listNock.scope.done();
+      getNock.scope.done();
+      repeatedSetNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should report a breakpoint which cannot be set again', async () => {
+      const oauthScope = nocks.oauth2();
+      const request = {
+        action: stackdriver.Action.CAPTURE,
+        location: {path: SOURCE_PATH, line: 9 + 1},
+      };
+      const setNock = nockDebuggeesBreakpointsSet(request);
+      setNock.interceptor.reply(200, {
+        breakpoint: {id: BREAKPOINT_ID, location: request.location},
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 9, url: SOURCE_PATH, condition: '/* repeat 2 */'},
+      });
+      const listNock = nockDebuggeesBreakpointsList();
+      listNock.interceptor.query(true).reply(200, {nextWaitToken: 'token'});
+      const getNock = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNock.interceptor.twice().reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: request.location,
+          isFinalState: true,
+        },
+      });
+      const repeatedSetNock = nockDebuggeesBreakpointsSet(request);
+      repeatedSetNock.interceptor.reply(400, {
+        error: {code: 400, message: 'Quota exceeded'},
+      });
+      const messageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on('consoleAPICalled', (params) => messageList.push(params));
+      let breakpointInfoLists = {
+        pendingBreakpointInfoList: [],
+        capturedSnapshotInfoList: [],
+      };
+      adapter.on('updateBreakpointList', (lists) => {
+        breakpointInfoLists = lists;
+      });
+      await adapter.updatePendingBreakpoints(false);
+      assert.deepStrictEqual(breakpointInfoLists, {
+        pendingBreakpointInfoList: [],
+        capturedSnapshotInfoList: [{
+          name: `${SOURCE_PATH}:10 (1 snapshot)`,
+          id: BREAKPOINT_ID,
+          failure: 'Failed to set the breakpoint again: Quota exceeded',
+          snapshotIdList: [BREAKPOINT_ID],
+        }],
+      });
+      assert.strictEqual(messageList.length, 1);
+      assert.strictEqual(messageList[0].type, 'error');
+      setNock.scope.done();
+      listNock.scope.done();
+      getNock.scope.done();
+      repeatedSetNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should not repeat a breakpoint whose window passed', async () => {
+      const oauthScope = nocks.oauth2();
+      const request = {
+        action: stackdriver.Action.CAPTURE,
+        location: {path: SOURCE_PATH, line: 9 + 1},
+      };
+      const setNock = nockDebuggeesBreakpointsSet(request);
+      setNock.interceptor.reply(200, {
+        breakpoint: {id: BREAKPOINT_ID, location: request.location},
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 9,
+          url: SOURCE_PATH,
+          condition: '/* repeat 1ms */',
+        },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await assertRejects(
+          adapter.repeatBreakpoint(BREAKPOINT_ID, {maxHitCount: 5}), /expired/);
+      // The window is kept, so the breakpoint is removed as it expired.
+      const deleteNock = nockDebuggeesBreakpointsDelete(BREAKPOINT_ID);
+      deleteNock.interceptor.reply(200);
+      const listNock = nockDebuggeesBreakpointsList();
+      listNock.interceptor.query(true).reply(200, {nextWaitToken: 'token'});
+      const messageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on('consoleAPICalled', (params) => messageList.push(params));
+      await adapter.updatePendingBreakpoints(false);
+      assert.strictEqual(messageList.length, 1);
+      assert.strictEqual(
+          messageList[0].args[0].value,
+          `The repeating breakpoint at ${SOURCE_PATH}:10 captured 0 ` +
+              'snapshots.');
+      setNock.scope.done();
+      deleteNock.scope.done();
+      listNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should throw on invalid repeat directives',
+       () => assertRejects(
+           adapter.processRequest({
+             id: 0,
+             method: 'Debugger.setBreakpointByUrl',
+             params: {
+               lineNumber: 9,
+               url: SOURCE_PATH,
+               condition: '/* repeat often */',
+             },
+           }),
+           (error: ProtocolError) => error.code === ErrorCode.INVALID_PARAMS));
+  });
+
+  describe('getPossibleBreakpoints', () => {
+    it('should send the statement locations in the range', async () => {
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.getPossibleBreakpoints',
+        params: {
+          start: {scriptId: STATEMENTS_PATH, lineNumber: 3, columnNumber: 0},
+          end: {scriptId: STATEMENTS_PATH, lineNumber: 8, columnNumber: 0},
+        },
+      }) as Debugger.GetPossibleBreakpointsReturnType;
+      assert.deepStrictEqual(response.locations, [
+        {scriptId: STATEMENTS_PATH, lineNumber: 4, columnNumber: 2},
+        {
+          scriptId: STATEMENTS_PATH,
+          lineNumber: 5,
+          columnNumber: 2,
+          type: 'return',
+        },
+      ]);
+    });
+
+    it('should move breakpoints to the next statement', async () => {
+      const oauthScope = nocks.oauth2();
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.CAPTURE,
+        location: {path: STATEMENTS_PATH, line: 4 + 1},
+      });
+      interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: STATEMENTS_PATH, line: 4 + 1},
+        },
+      });
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: STATEMENTS_PATH},
+      }) as Debugger.SetBreakpointByUrlReturnType;
+      assert.strictEqual(response.locations[0].lineNumber, 4);
+      scope.done();
+      oauthScope.done();
+      nock.cleanAll();
+    });
+  });
+
+  describe('searchInContent', () => {
+    it('should send the matching lines', async () => {
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.searchInContent',
+        params: {scriptId: STATEMENTS_PATH, query: 'SUM'},
+      }) as Debugger.SearchInContentReturnType;
+      assert.deepStrictEqual(response.result, [
+        {lineNumber: 4, lineContent: '  const sum = a + b;'},
+        {lineNumber: 5, lineContent: '  return sum;'},
+      ]);
+    });
+
+    it('should honor caseSensitive and isRegex', async () => {
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.searchInContent',
+        params: {
+          scriptId: STATEMENTS_PATH,
+          query: '^function \\w+\\(',
+          caseSensitive: true,
+          isRegex: true,
+        },
+      }) as Debugger.SearchInContentReturnType;
+      assert.deepStrictEqual(
+          response.result,
+          [{lineNumber: 2, lineContent: 'function add(a, b) {'}]);
+    });
+
+    it('should reject an invalid regular expression as invalid', async () => {
+      await assertRejects(
+          adapter.processRequest({
+            id: 0,
+            method: 'Debugger.searchInContent',
+            params: {scriptId: STATEMENTS_PATH, query: '(', isRegex: true},
+          }),
+          (error: ProtocolError) => error.code === ErrorCode.INVALID_PARAMS);
+    });
+
+    it('should reject a search in a missing file', async () => {
+      await assertRejects(
+          adapter.processRequest({
+            id: 0,
+            method: 'Debugger.searchInContent',
+            params: {scriptId: `${STATEMENTS_PATH}.missing`, query: 'sum'},
+          }),
+          /ENOENT/);
+    });
+  });
+
+  describe('evaluateOnCallFrame', () => {
+    let oauthScope: nock.Scope;
+
+    beforeEach(() => {
+      oauthScope = nocks.oauth2();
+    });
+
+    afterEach(() => nock.cleanAll());
+
+    it('should capture watch expressions with new snapshots', async () => {
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.evaluateOnCallFrame',
+        params: {
+          callFrameId: 'unknown-frame-0',
+          expression: 'user.name',
+          objectGroup: 'watch-group',
+        },
+      }) as Debugger.EvaluateOnCallFrameReturnType;
+      assert(response.exceptionDetails);
+      assert(/not captured at this breakpoint/.test(
+          response.exceptionDetails!.text));
+
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.CAPTURE,
+        location: {path: SOURCE_PATH, line: 3 + 1},
+        expressions: ['user.name'],
+      });
+      interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 1,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: SOURCE_PATH},
+      });
+      scope.done();
+      oauthScope.done();
+    });
+
+    it('should keep the watch expressions of each session', async () => {
+      const evaluateWatch = (sessionId: number, expression: string) =>
+          adapter.processRequest(
+              {
+                id: 0,
+                method: 'Runtime.evaluate',
+                params: {expression, objectGroup: 'watch-group'},
+              },
+              sessionId);
+      await evaluateWatch(1, 'user.name');
+      await evaluateWatch(1, 'user.age');
+      await evaluateWatch(2, 'cart.total');
+      // DevTools releases the group before it evaluates the Watch pane again.
+      await adapter.processRequest(
+          {
+            id: 1,
+            method: 'Runtime.releaseObjectGroup',
+            params: {objectGroup: 'watch-group'},
+          },
+          1);
+      await evaluateWatch(1, 'user.name');
+
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet({
+        action: stackdriver.Action.CAPTURE,
+        location: {path: SOURCE_PATH, line: 3 + 1},
+        expressions: ['user.name'],
+      });
+      interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest(
+          {
+            id: 2,
+            method: 'Debugger.setBreakpointByUrl',
+            params: {lineNumber: 3, url: SOURCE_PATH},
+          },
+          1);
+      scope.done();
+      oauthScope.done();
+    });
+
+    it('should answer with expressions captured in the snapshot', async () => {
+      const setNockObject = nockDebuggeesBreakpointsSet();
+      setNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: SOURCE_PATH},
+      });
+      const getNockObject = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          isFinalState: true,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: 3 + 1},
+          }],
+          evaluatedExpressions: [
+            {name: 'user.name', value: 'ada'},
+            {
+              name: 'user.age',
+              status: {
+                isError: true,
+                refersTo: 'VARIABLE_NAME',
+                description: {format: '$0 is undefined', parameters: ['age']},
+              },
+            },
+          ],
+        },
+      });
+      const pausedEvent = await adapter.loadSnapshot(BREAKPOINT_ID);
+      const callFrameId = pausedEvent.callFrames[0].callFrameId;
+      const nameResponse = await adapter.processRequest({
+        id: 1,
+        method: 'Debugger.evaluateOnCallFrame',
+        params: {callFrameId, expression: 'user.name'},
+      }) as Debugger.EvaluateOnCallFrameReturnType;
+      assert.deepStrictEqual(nameResponse, {
+        result: {type: 'string', value: 'ada'},
+      });
+      const ageResponse = await adapter.processRequest({
+        id: 2,
+        method: 'Debugger.evaluateOnCallFrame',
+        params: {callFrameId, expression: 'user.age'},
+      }) as Debugger.EvaluateOnCallFrameReturnType;
+      assert.strictEqual(
+          ageResponse.exceptionDetails!.text, 'age is undefined');
+      setNockObject.scope.done();
+      getNockObject.scope.done();
+      oauthScope.done();
+    });
+  });
+
+  describe('loadSnapshot', () => {
+    afterEach(() => nock.cleanAll());
+
+    it('should show arguments and the receiver of each frame', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNockObject = nockDebuggeesBreakpointsSet();
+      setNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: SOURCE_PATH},
+      });
+      const getNockObject = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          isFinalState: true,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: 3 + 1},
+            arguments: [{name: 'request', value: 'GET'}],
+            locals: [
+              {name: 'request', value: 'GET'},
+              {name: 'count', value: '1'},
+              {name: 'context', varTableIndex: 1},
+            ],
+          }],
+          variableTable: [
+            {value: '#<Object>'},
+            {value: '#<Object>'},
+          ],
+        },
+      });
+      const pausedEvent = await adapter.loadSnapshot(BREAKPOINT_ID);
+      const callFrame = pausedEvent.callFrames[0];
+      assert.deepStrictEqual(
+          callFrame.scopeChain.map(
+              (scope: Debugger.Scope) => [scope.type, scope.name]),
+          [['local', undefined]]);
+      assert.strictEqual(callFrame.this.className, 'Object');
+      const localsResponse = await adapter.processRequest({
+        id: 1,
+        method: 'Runtime.getProperties',
+        params: {objectId: callFrame.scopeChain[0].object.objectId!},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.deepStrictEqual(
+          localsResponse.result.map(
+              (property: Runtime.PropertyDescriptor) => property.name),
+          ['request', 'count']);
+      assert.deepStrictEqual(localsResponse.result[0], {
+        name: 'request',
+        configurable: false,
+        enumerable: true,
+        value: {type: 'string', value: 'GET'},
+      });
+      setNockObject.scope.done();
+      getNockObject.scope.done();
+      oauthScope.done();
+    });
+
+    it('should show the entries of maps and sets', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNockObject = nockDebuggeesBreakpointsSet();
+      setNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: SOURCE_PATH},
+      });
+      const getNockObject = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          isFinalState: true,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: 3 + 1},
+            locals: [
+              {name: 'map', varTableIndex: 1},
+              {name: 'set', varTableIndex: 2},
+              {name: 'bytes', varTableIndex: 3},
+              {name: 'big', value: '-12n'},
+            ],
+          }],
+          variableTable: [
+            {value: '#<Object>'},
+            {value: '#<Map>', members: [{name: 'a', value: '1'}]},
+            {value: '#<Set>', members: [{name: '0', value: 'true'}]},
+            {
+              value: '#<Uint8Array>',
+              members: [{name: '0', value: '7'}, {name: 'length', value: '4'}],
+            },
+          ],
+        },
+      });
+      const pausedEvent = await adapter.loadSnapshot(BREAKPOINT_ID);
+      const localsResponse = await adapter.processRequest({
+        id: 1,
+        method: 'Runtime.getProperties',
+        params: {
+          objectId: pausedEvent.callFrames[0].scopeChain[0].object.objectId!,
+        },
+      }) as Runtime.GetPropertiesReturnType;
+      const [map, set, bytes, big] = localsResponse.result.map(
+          (property: Runtime.PropertyDescriptor) => property.value!);
+      assert.strictEqual(map.description, 'Map(1)');
+      assert.strictEqual(set.description, 'Set(1)');
+      assert.strictEqual(bytes.subtype, 'typedarray');
+      assert.strictEqual(bytes.description, 'Uint8Array(4)');
+      assert.deepStrictEqual(
+          big,
+          {type: 'bigint', description: '-12n', unserializableValue: '-12n'});
+
+      const mapResponse = await adapter.processRequest({
+        id: 2,
+        method: 'Runtime.getProperties',
+        params: {objectId: map.objectId!},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.deepStrictEqual(mapResponse.result, []);
+      const entries = mapResponse.internalProperties![0];
+      assert.strictEqual(entries.name, '[[Entries]]');
+      const entriesResponse = await adapter.processRequest({
+        id: 3,
+        method: 'Runtime.getProperties',
+        params: {objectId: entries.value!.objectId!},
+      }) as Runtime.GetPropertiesReturnType;
+      const entry = entriesResponse.result[0].value!;
+      assert.strictEqual(entry.subtype, 'internal#entry');
+      assert.strictEqual(entry.description, '{"a" => 1}');
+      const entryResponse = await adapter.processRequest({
+        id: 4,
+        method: 'Runtime.getProperties',
+        params: {objectId: entry.objectId!},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.deepStrictEqual(
+          entryResponse.result.map(
+              (property: Runtime.PropertyDescriptor) => property.value),
+          [
+            {type: 'string', value: 'a'},
+            {type: 'number', description: '1', value: 1},
+          ]);
+
+      const setResponse = await adapter.processRequest({
+        id: 5,
+        method: 'Runtime.getProperties',
+        params: {objectId: set.objectId!},
+      }) as Runtime.GetPropertiesReturnType;
+      const setEntriesResponse = await adapter.processRequest({
+        id: 6,
+        method: 'Runtime.getProperties',
+        params: {objectId: setResponse.internalProperties![0].value!.objectId!},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.strictEqual(
+          setEntriesResponse.result[0].value!.description, 'true');
+      setNockObject.scope.done();
+      getNockObject.scope.done();
+      oauthScope.done();
+    });
+
+    it('should preview objects and filter properties', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNockObject = nockDebuggeesBreakpointsSet();
+      setNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: SOURCE_PATH},
+      });
+      const getNockObject = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          isFinalState: true,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: 3 + 1},
+            locals: [
+              {name: 'user', varTableIndex: 1},
+              {name: 'row', varTableIndex: 2},
+              {name: 'map', varTableIndex: 3},
+            ],
+          }],
+          variableTable: [
+            {value: '#<Object>'},
+            {
+              value: '#<Object>',
+              members: [
+                {name: 'id', value: '42'},
+                {name: 'name', value: 'x'},
+              ],
+            },
+            {
+              value: '#<Object>',
+              members: ['a', 'b', 'c', 'd', 'e', 'f'].map(
+                  (name: string) => ({name, value: 'true'})),
+            },
+            {value: '#<Map>', members: [{name: 'k', varTableIndex: 1}]},
+          ],
+        },
+      });
+      const pausedEvent = await adapter.loadSnapshot(BREAKPOINT_ID);
+      const objectId = pausedEvent.callFrames[0].scopeChain[0].object.objectId!;
+      const localsResponse = await adapter.processRequest({
+        id: 1,
+        method: 'Runtime.getProperties',
+        params: {objectId, ownProperties: true, generatePreview: true},
+      }) as Runtime.GetPropertiesReturnType;
+      const [user, row, map] = localsResponse.result.map(
+          (property: Runtime.PropertyDescriptor) => property.value!.preview!);
+      assert.deepStrictEqual(user, {
+        type: 'object',
+        description: 'Object',
+        overflow: false,
+        properties: [
+          {name: 'id', type: 'number', value: '42'},
+          {name: 'name', type: 'string', value: 'x'},
+        ],
+      });
+      assert.strictEqual(row.properties.length, 5);
+      assert.strictEqual(row.overflow, true);
+      assert.strictEqual(map.description, 'Map(1)');
+      assert.deepStrictEqual(map.entries, [{
+                               key: {
+                                 type: 'string',
+                                 description: 'k',
+                                 overflow: false,
+                                 properties: [],
+                               },
+                               value: user,
+                             }]);
+      const accessorsResponse = await adapter.processRequest({
+        id: 2,
+        method: 'Runtime.getProperties',
+        params: {objectId, accessorPropertiesOnly: true},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.deepStrictEqual(accessorsResponse.result, []);
+      setNockObject.scope.done();
+      getNockObject.scope.done();
+      oauthScope.done();
+    });
+
+    it('should evaluate expressions over the captured data', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNockObject = nockDebuggeesBreakpointsSet();
+      setNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 3, url: SOURCE_PATH},
+      });
+      const getNockObject = nockDebuggeesBreakpointsGet(BREAKPOINT_ID);
+      getNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: BREAKPOINT_ID,
+          isFinalState: true,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: 3 + 1},
+            arguments: [{name: 'count', value: '2'}],
+          }],
+        },
+      });
+      const pausedEvent = await adapter.loadSnapshot(BREAKPOINT_ID);
+      const response = await adapter.processRequest({
+        id: 1,
+        method: 'Debugger.evaluateOnCallFrame',
+        params: {
+          callFrameId: pausedEvent.callFrames[0].callFrameId,
+          expression: 'count * 2',
+        },
+      });
+      assert.deepStrictEqual(
+          response, {result: {type: 'number', description: '4', value: 4}});
+      const consoleResponse = await adapter.processRequest({
+        id: 2,
+        method: 'Runtime.evaluate',
+        params: {expression: 'count + missing'},
+      }) as Runtime.EvaluateReturnType;
+      assert(/`missing` was not captured/.test(
+          consoleResponse.exceptionDetails!.text));
+      setNockObject.scope.done();
+      getNockObject.scope.done();
+      oauthScope.done();
+    });
+  });
+
+  describe('releaseObject', () => {
+    let oauthScope: nock.Scope;
+
+    beforeEach(() => {
+      oauthScope = nocks.oauth2();
+    });
+
+    afterEach(() => nock.cleanAll());
+
+    async function loadUserSnapshot(
+        breakpointId: stackdriver.BreakpointId, lineNumber: number,
+        labels?: {[key: string]: string}):
+        Promise<Debugger.PausedEventDataType> {
+      const setNockObject = nockDebuggeesBreakpointsSet();
+      setNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: breakpointId,
+          location: {path: SOURCE_PATH, line: lineNumber + 1},
+        },
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber, url: SOURCE_PATH},
+      });
+      const getNockObject = nockDebuggeesBreakpointsGet(breakpointId);
+      getNockObject.interceptor.reply(200, {
+        breakpoint: {
+          id: breakpointId,
+          isFinalState: true,
+          location: {path: SOURCE_PATH, line: lineNumber + 1},
+          labels,
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: lineNumber + 1},
+            locals: [{name: 'user', varTableIndex: 1}],
+          }],
+          variableTable: [
+            {value: '#<Object>'},
+            {value: '#<Object>', members: [{name: 'id', value: '42'}]},
+          ],
+        },
+      });
+      const pausedEvent = await adapter.loadSnapshot(breakpointId);
+      setNockObject.scope.done();
+      getNockObject.scope.done();
+      return pausedEvent;
+    }
+
+    it('should release the objects in an object group', async () => {
+      const pausedEvent = await loadUserSnapshot(BREAKPOINT_ID, 3);
+      const evaluateResponse = await adapter.processRequest({
+        id: 1,
+        method: 'Debugger.evaluateOnCallFrame',
+        params: {
+          callFrameId: pausedEvent.callFrames[0].callFrameId,
+          expression: 'user',
+          objectGroup: 'popover',
+        },
+      }) as Debugger.EvaluateOnCallFrameReturnType;
+      const objectId = evaluateResponse.result.objectId!;
+      const propertiesResponse = await adapter.processRequest({
+        id: 2,
+        method: 'Runtime.getProperties',
+        params: {objectId},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.deepStrictEqual(
+          propertiesResponse.result.map(
+              (property: Runtime.PropertyDescriptor) => property.name),
+          ['id']);
+      await adapter.processRequest({
+        id: 3,
+        method: 'Runtime.releaseObjectGroup',
+        params: {objectGroup: 'popover'},
+      });
+      await assertRejects(
+          adapter.processRequest({
+            id: 4,
+            method: 'Runtime.getProperties',
+            params: {objectId},
+          }),
+          /was released/);
+      oauthScope.done();
+    });
+
+    it('should keep an object released under its own ID', async () => {
+      const pausedEvent = await loadUserSnapshot(BREAKPOINT_ID, 3);
+      const objectId = pausedEvent.callFrames[0].scopeChain[0].object.objectId!;
+      await adapter.processRequest({
+        id: 1,
+        method: 'Runtime.releaseObject',
+        params: {objectId},
+      });
+      const response = await adapter.processRequest({
+        id: 2,
+        method: 'Runtime.getProperties',
+        params: {objectId},
+      }) as Runtime.GetPropertiesReturnType;
+      assert.strictEqual(response.result.length, 1);
+      oauthScope.done();
+    });
+
+    it('should evict the oldest snapshot over the budget', async () => {
+      const debugProxy = new stackdriver.DebugProxy({
+        debuggerId: DEBUGGER_ID,
+        sourceDirectory: SOURCE_DIRECTORY,
+      });
+      await debugProxy.setProjectByKeyFile('./test/fixtures/keyfile.json');
+      await debugProxy.setDebuggeeId(DEBUGGEE_ID);
+      adapter = new devtools.Adapter(debugProxy, {maxSnapshotCount: 1});
+      const firstPausedEvent = await loadUserSnapshot(BREAKPOINT_ID, 3);
+      const secondPausedEvent =
+          await loadUserSnapshot(`${BREAKPOINT_ID}-second`, 5);
+      await assertRejects(
+          adapter.processRequest({
+            id: 1,
+            method: 'Runtime.getProperties',
+            params: {
+              objectId:
+                  firstPausedEvent.callFrames[0].scopeChain[0].object.objectId!,
+            },
+          }),
+          (error: ProtocolError) => error.code === ErrorCode.INVALID_PARAMS &&
+              /was evicted from memory/.test(error.message));
+      const response = await adapter.processRequest({
+        id: 2,
+        method: 'Runtime.getProperties',
+        params: {
+          objectId:
+              secondPausedEvent.callFrames[0].scopeChain[0].object.objectId!,
+        },
+      }) as Runtime.GetPropertiesReturnType;
+      assert.strictEqual(response.result.length, 1);
+      oauthScope.done();
+    });
+
+    it('should measure snapshots by their stored property lists', async () => {
+      const debugProxy = new stackdriver.DebugProxy({
+        debuggerId: DEBUGGER_ID,
+        sourceDirectory: SOURCE_DIRECTORY,
+      });
+      await debugProxy.setProjectByKeyFile('./test/fixtures/keyfile.json');
+      await debugProxy.setDebuggeeId(DEBUGGEE_ID);
+      // The property lists of the first two snapshots take 450 and 464 bytes
+      // of JSON, which fill the budget exactly. Their labels are not stored.
+      adapter = new devtools.Adapter(debugProxy, {maxSnapshotBytes: 914});
+      const labels = {padding: 'x'.repeat(10000)};
+      const firstPausedEvent = await loadUserSnapshot(BREAKPOINT_ID, 3, labels);
+      const getFirstProperties = () => adapter.processRequest({
+        id: 1,
+        method: 'Runtime.getProperties',
+        params: {
+          objectId:
+              firstPausedEvent.callFrames[0].scopeChain[0].object.objectId!,
+        },
+      });
+      await loadUserSnapshot(`${BREAKPOINT_ID}-second`, 5, labels);
+      const response =
+          await getFirstProperties() as Runtime.GetPropertiesReturnType;
+      assert.strictEqual(response.result.length, 1);
+      // A third snapshot exceeds the budget.
+      await loadUserSnapshot(`${BREAKPOINT_ID}-third`, 7, labels);
+      await assertRejects(getFirstProperties(), /was evicted from memory/);
+      oauthScope.done();
+    });
+  });
+
+  describe('importSnapshot', () => {
+    it('should load an imported snapshot without Stackdriver', async () => {
+      const archive = {
+        version: 1,
+        snapshot: {
+          id: BREAKPOINT_ID,
+          isFinalState: true as true,
+          location: {path: SOURCE_PATH, line: 3 + 1},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line: 3 + 1},
+            locals: [{name: 'count', value: '2'}],
+          }],
+          variableTable: [],
+        },
+        sourceLines: {[SOURCE_PATH]: {[3 + 1]: '  count++;'}},
+      };
+      const consoleMessageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on(
+          'consoleAPICalled',
+          (params: Runtime.ConsoleAPICalledEventDataType) =>
+              consoleMessageList.push(params));
+      assert.strictEqual(adapter.importSnapshot(archive), BREAKPOINT_ID);
+      assert.strictEqual(
+          consoleMessageList[0].args[0].value,
+          `Imported the snapshot captured at ${SOURCE_PATH}:4: count++;`);
+      const pausedEvent = await adapter.loadSnapshot(BREAKPOINT_ID);
+      const response = await adapter.processRequest({
+        id: 0,
+        method: 'Runtime.getProperties',
+        params: {
+          objectId: pausedEvent.callFrames[0].scopeChain[0].object.objectId!,
+        },
+      }) as Runtime.GetPropertiesReturnType;
+      assert.deepStrictEqual(
+          response.result[0].value,
+          {type: 'number', description: '2', value: 2});
+      assert.strictEqual(await adapter.exportSnapshot(BREAKPOINT_ID), archive);
+    });
+  });
+
+  describe('breakpoint sets', () => {
+    const request = {
+      action: stackdriver.Action.CAPTURE,
+      location: {path: SOURCE_PATH, line: 9 + 1},
+      condition: 'x > 1',
+    };
+    let stateDirectory: string;
+
+    beforeEach(() => {
+      stateDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'state-'));
+      adapter = new devtools.Adapter(debugProxy, {
+        breakpointSetFile: path.join(stateDirectory, 'state.json'),
+        debuggeeKey: 'test-project/default',
+      });
+    });
+
+    afterEach(() => {
+      nock.cleanAll();
+      for (const file of fs.readdirSync(stateDirectory)) {
+        fs.unlinkSync(path.join(stateDirectory, file));
+      }
+      fs.rmdirSync(stateDirectory);
+    });
+
+    it('should set the breakpoints of a saved set again', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNock = nockDebuggeesBreakpointsSet(request);
+      setNock.interceptor.reply(200, {
+        breakpoint: Object.assign({id: BREAKPOINT_ID}, request),
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 9, url: SOURCE_PATH, condition: 'x > 1'},
+      });
+      assert.strictEqual(await adapter.saveBreakpointSet('investigation'), 1);
+      assert.deepStrictEqual(
+          await adapter.listBreakpointSets(), ['investigation']);
+      const appliedSetNock = nockDebuggeesBreakpointsSet(request);
+      appliedSetNock.interceptor.reply(200, {
+        breakpoint: Object.assign({id: `${BREAKPOINT_ID}-2`}, request),
+      });
+      const messageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on('consoleAPICalled', (params) => messageList.push(params));
+      const breakpointList = await adapter.applyBreakpointSet('investigation');
+      assert.deepStrictEqual(
+          breakpointList.map(
+              (breakpoint: stackdriver.Breakpoint) => breakpoint.id),
+          [`${BREAKPOINT_ID}-2`]);
+      // Each breakpoint is located in the console, after the summary.
+      assert.strictEqual(messageList.length, 2);
+      assert.strictEqual(
+          messageList[1].stackTrace!.callFrames[0].lineNumber, 9);
+      setNock.scope.done();
+      appliedSetNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should keep repeating the breakpoints of a saved set', async () => {
+      const oauthScope = nocks.oauth2();
+      const setNock = nockDebuggeesBreakpointsSet(request);
+      setNock.interceptor.twice().reply(200, {
+        breakpoint: Object.assign({id: BREAKPOINT_ID}, request),
+      });
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {
+          lineNumber: 9,
+          url: SOURCE_PATH,
+          condition: '/* repeat 3 */ x > 1',
+        },
+      });
+      await adapter.saveBreakpointSet('investigation');
+      const breakpointSetFile = path.join(stateDirectory, 'state.json');
+      assert.deepStrictEqual(
+          JSON.parse(fs.readFileSync(breakpointSetFile, 'utf8'))
+              .breakpointSets['test-project/default']
+              .investigation[0]
+              .repeatOptions,
+          {maxHitCount: 3});
+      adapter = new devtools.Adapter(debugProxy, {
+        breakpointSetFile,
+        debuggeeKey: 'test-project/default',
+      });
+      let breakpointInfoLists = {
+        pendingBreakpointInfoList: [],
+        capturedSnapshotInfoList: [],
+      };
+      adapter.on('updateBreakpointList', (lists) => {
+        breakpointInfoLists = lists;
+      });
+      await adapter.applyBreakpointSet('investigation');
+      assert.deepStrictEqual(
+          breakpointInfoLists.pendingBreakpointInfoList.map(
+              (breakpointInfo: {name: string}) => breakpointInfo.name),
+          [`${SOURCE_PATH}:10 (0 snapshots)`]);
+      setNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should set the breakpoints of a saved set all or none', async () => {
+      const oauthScope = nocks.oauth2();
+      const failedRequest = {
+        action: stackdriver.Action.CAPTURE,
+        location: {path: SOURCE_PATH, line: 3},
+      };
+      fs.writeFileSync(path.join(stateDirectory, 'state.json'), JSON.stringify({
+        version: 1,
+        breakpointSets: {
+          'test-project/default': {investigation: [request, failedRequest]},
+        },
+      }));
+      const setNock = nockDebuggeesBreakpointsSet(request);
+      setNock.interceptor.reply(200, {
+        breakpoint: Object.assign({id: BREAKPOINT_ID}, request),
+      });
+      const failedSetNock = nockDebuggeesBreakpointsSet(failedRequest);
+      failedSetNock.interceptor.reply(400, {
+        error: {code: 400, message: 'Invalid breakpoint location'},
+      });
+      const deleteNock = nockDebuggeesBreakpointsDelete(BREAKPOINT_ID);
+      deleteNock.interceptor.reply(200, {});
+      await assertRejects(
+          adapter.applyBreakpointSet('investigation'),
+          /Invalid breakpoint location/);
+      assert.deepStrictEqual(debugProxy.getSnapshotIdList(false), []);
+      setNock.scope.done();
+      failedSetNock.scope.done();
+      deleteNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should throw on sets which were not saved',
+       () => assertRejects(
+           adapter.applyBreakpointSet('missing'),
+           /No breakpoint set named missing was saved for test-project/));
+  });
+
+  describe('switchDebuggee', () => {
+    const NEW_DEBUGGEE_ID = 'test-new-debuggee-id';
+    const debuggees = [
+      {id: DEBUGGEE_ID, labels: {projectid: 'app', version: 'v1'}},
+      {id: NEW_DEBUGGEE_ID, labels: {projectid: 'app', version: 'v2'}},
+    ];
+
+    afterEach(() => nock.cleanAll());
+
+    it('should remove the breakpoints and poll the new debuggee', async () => {
+      const oauthScope = nocks.oauth2();
+      const location = {path: SOURCE_PATH, line: 9 + 1};
+      const setNock = nockDebuggeesBreakpointsSet();
+      setNock.interceptor.reply(
+          200, {breakpoint: {id: BREAKPOINT_ID, location}});
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 9, url: SOURCE_PATH},
+      });
+      const listNock = nockDebuggeesList();
+      listNock.interceptor.query(true).twice().reply(200, {debuggees});
+      const deleteNock = nockDebuggeesBreakpointsDelete(BREAKPOINT_ID);
+      deleteNock.interceptor.reply(200, {});
+      let resumeCount = 0;
+      adapter.on('resume', () => resumeCount++);
+      const switchedIdList: string[] = [];
+      adapter.on(
+          'switchDebuggee', (debuggeeId) => switchedIdList.push(debuggeeId));
+      let breakpointInfoLists = {};
+      adapter.on('updateBreakpointList', (lists) => {
+        breakpointInfoLists = lists;
+      });
+      await adapter.switchDebuggee(NEW_DEBUGGEE_ID);
+      assert.strictEqual(resumeCount, 1);
+      assert.deepStrictEqual(switchedIdList, [NEW_DEBUGGEE_ID]);
+      assert.deepStrictEqual(breakpointInfoLists, {
+        pendingBreakpointInfoList: [],
+        capturedSnapshotInfoList: [],
+      });
+      assert.deepStrictEqual(
+          (await adapter.listDebuggees())
+              .map((debuggeeInfo) => [debuggeeInfo.name, debuggeeInfo.current]),
+          [['app, v1', false], ['app, v2', true]]);
+      const pollScope =
+          nock(STACKDRIVER_URL)
+              .get(API_URL + `/debuggees/${NEW_DEBUGGEE_ID}/breakpoints`)
+              .query(true)
+              .reply(200, {nextWaitToken: 'token'});
+      await adapter.updatePendingBreakpoints(false);
+      setNock.scope.done();
+      listNock.scope.done();
+      deleteNock.scope.done();
+      pollScope.done();
+      oauthScope.done();
+    });
+
+    it('should not switch if a breakpoint cannot be removed', async () => {
+      adapter = new devtools.Adapter(debugProxy, {debuggeeId: DEBUGGEE_ID});
+      const oauthScope = nocks.oauth2();
+      const location = {path: SOURCE_PATH, line: 9 + 1};
+      const setNock = nockDebuggeesBreakpointsSet();
+      setNock.interceptor.reply(
+          200, {breakpoint: {id: BREAKPOINT_ID, location}});
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.setBreakpointByUrl',
+        params: {lineNumber: 9, url: SOURCE_PATH},
+      });
+      const listNock = nockDebuggeesList();
+      listNock.interceptor.query(true).twice().reply(200, {debuggees});
+      const deleteNock = nockDebuggeesBreakpointsDelete(BREAKPOINT_ID);
+      deleteNock.interceptor.reply(500, {
+        error: {code: 500, message: 'Internal error'},
+      });
+      await assertRejects(
+          adapter.switchDebuggee(NEW_DEBUGGEE_ID),
+          /did not switch to the debuggee test-new-debuggee-id/);
+      assert.deepStrictEqual(
+          (await adapter.listDebuggees())
+              .map((debuggeeInfo) => debuggeeInfo.current),
+          [true, false]);
+      setNock.scope.done();
+      listNock.scope.done();
+      deleteNock.scope.done();
+      oauthScope.done();
+    });
+
+    it('should throw on debuggees which do not exist', async () => {
+      const oauthScope = nocks.oauth2();
+      nockDebuggeesList().interceptor.query(true).reply(200, {debuggees});
+      await assertRejects(
+          adapter.switchDebuggee('missing'),
+          /The debuggee missing was not found/);
+      oauthScope.done();
+    });
+  });
+
+  describe('stepping', () => {
+    /*
+     * @param id - ID of the snapshot
+     * @param line - one-indexed line at which it was captured
+     * @param finalTime - time at which it was captured
+     * @returns archive of a snapshot, as if exported
+     */
+    function createArchive(id: string, line: number, finalTime: string) {
+      return {
+        version: 1,
+        snapshot: {
+          id,
+          isFinalState: true as true,
+          finalTime,
+          location: {path: SOURCE_PATH, line},
+          stackFrames: [{
+            function: 'handler',
+            location: {path: SOURCE_PATH, line},
+            locals: [],
+          }],
+          variableTable: [],
+        },
+        sourceLines: {},
+      };
+    }
+
+    let loadedSnapshotIdList: string[];
+    let resumeCount: number;
+
+    beforeEach(async () => {
+      // Imported out of order, to be stepped through by capture time.
+      adapter.importSnapshot(
+          createArchive('third', 4, '2018-06-01T10:00:03.5Z'));
+      adapter.importSnapshot(createArchive('first', 4, '2018-06-01T10:00:01Z'));
+      adapter.importSnapshot(
+          createArchive('second', 2, '2018-06-01T10:00:02.25Z'));
+      await adapter.loadSnapshot('first');
+      loadedSnapshotIdList = [];
+      resumeCount = 0;
+      adapter.on('resume', () => resumeCount++);
+      adapter.on(
+          'loadSnapshot',
+          (snapshotId: string) => loadedSnapshotIdList.push(snapshotId));
+    });
+
+    it('should step into the next snapshot in time', async () => {
+      await adapter.processRequest({id: 0, method: 'Debugger.stepInto'});
+      assert.strictEqual(resumeCount, 1);
+      assert.deepStrictEqual(loadedSnapshotIdList, ['second']);
+    });
+
+    it('should step over to the next snapshot at the same line', async () => {
+      await adapter.processRequest({id: 0, method: 'Debugger.stepOver'});
+      assert.deepStrictEqual(loadedSnapshotIdList, ['third']);
+    });
+
+    it('should continue to the next snapshot at a location', async () => {
+      await adapter.processRequest({
+        id: 0,
+        method: 'Debugger.continueToLocation',
+        params: {location: {scriptId: SOURCE_PATH, lineNumber: 3}},
+      });
+      assert.deepStrictEqual(loadedSnapshotIdList, ['third']);
+    });
+
+    it('should stay at the last snapshot', async () => {
+      await adapter.loadSnapshot('third');
+      const consoleMessageList: Runtime.ConsoleAPICalledEventDataType[] = [];
+      adapter.on(
+          'consoleAPICalled',
+          (params: Runtime.ConsoleAPICalledEventDataType) =>
+              consoleMessageList.push(params));
+      assert.deepStrictEqual(
+          await adapter.processRequest({id: 0, method: 'Debugger.stepInto'}),
+          {});
+      assert.strictEqual(resumeCount, 0);
+      assert.deepStrictEqual(loadedSnapshotIdList, []);
+      assert.strictEqual(
+          consoleMessageList[0].args[0].value,
+          'No later snapshot was captured to step to.');
+    });
+
+    it('should reject stepping after resuming', async () => {
+      await adapter.processRequest({id: 0, method: 'Debugger.resume'});
+      await assertRejects(
+          adapter.processRequest({id: 0, method: 'Debugger.stepOut'}),
+          /Can only step while a snapshot is shown as paused/);
+    });
   });
 
   describe('setBreakpointsActive', () => {
@@ -229,11 +1880,156 @@ describe('adapter.ts', () => {
     });
   });
 
+  describe('errors', () => {
+    afterEach(() => nock.cleanAll());
+
+    it('should reject requests without parameters as invalid', async () => {
+      await assertRejects(
+          adapter.processRequest(
+              {id: 0, method: 'Debugger.setBreakpointByUrl'}),
+          (error: ProtocolError) => error.code === ErrorCode.INVALID_PARAMS);
+    });
+
+    it('should reject unsupported methods as not found', async () => {
+      await assertRejects(
+          adapter.processRequest({id: 0, method: 'Debugger.restartFrame'}),
+          (error: ProtocolError) => error.code === ErrorCode.METHOD_NOT_FOUND);
+    });
+
+    it('should use the message of failed Stackdriver requests', async () => {
+      const oauthScope = nocks.oauth2();
+      const {scope, interceptor} = nockDebuggeesBreakpointsSet();
+      interceptor.reply(400, {
+        error: {
+          code: 400,
+          message: 'Invalid breakpoint location',
+          status: 'INVALID_ARGUMENT',
+        },
+      });
+      let error: Error|undefined;
+      try {
+        await adapter.processRequest({
+          id: 0,
+          method: 'Debugger.setBreakpointByUrl',
+          params: {lineNumber: 0, url: SOURCE_PATH},
+        });
+      } catch (e) {
+        error = e;
+      }
+      assert.deepStrictEqual(ProtocolError.from(error!).toMessageError(), {
+        code: ErrorCode.SERVER_ERROR,
+        message: 'Stackdriver Debug: Invalid breakpoint location',
+        data: 'INVALID_ARGUMENT',
+      });
+      scope.done();
+      oauthScope.done();
+    });
+  });
+
+  describe('SUPPORTED_DOMAIN_LIST', () => {
+    // Every method of the domains, as in the `DebuggerMethod` and
+    // `RuntimeMethod` types.
+    const domainMethodMap = new Map<string, string[]>([
+      [
+        'Debugger',
+        [
+          'continueToLocation',
+          'disable',
+          'enable',
+          'evaluateOnCallFrame',
+          'getPossibleBreakpoints',
+          'getScriptSource',
+          'getStackTrace',
+          'pause',
+          'pauseOnAsyncCall',
+          'removeBreakpoint',
+          'restartFrame',
+          'resume',
+          'scheduleStepIntoAsync',
+          'searchInContent',
+          'setAsyncCallStackDepth',
+          'setBlackboxPatterns',
+          'setBlackboxedRanges',
+          'setBreakpoint',
+          'setBreakpointByUrl',
+          'setBreakpointOnFunctionCall',
+          'setBreakpointsActive',
+          'setPauseOnExceptions',
+          'setReturnValue',
+          'setScriptSource',
+          'setSkipAllPauses',
+          'setVariableValue',
+          'stepInto',
+          'stepOut',
+          'stepOver',
+        ],
+      ],
+      [
+        'Runtime',
+        [
+          'addBinding',
+          'awaitPromise',
+          'callFunctionOn',
+          'compileScript',
+          'disable',
+          'discardConsoleEntries',
+          'enable',
+          'evaluate',
+          'getIsolateId',
+          'getHeapUsage',
+          'getProperties',
+          'globalLexicalScopeNames',
+          'queryObjects',
+          'releaseObject',
+          'releaseObjectGroup',
+          'removeBinding',
+          'runIfWaitingForDebugger',
+          'runScript',
+          'setAsyncCallStackDepth',
+          'setCustomObjectFormatterEnabled',
+          'setMaxCallStackSizeToCapture',
+          'terminateExecution',
+        ],
+      ],
+    ]);
+    afterEach(() => nock.cleanAll());
+
+    // Resolves to whether the method is rejected as not found. Other errors,
+    // e.g. for the missing parameters, mean that the method is accepted.
+    async function isMethodNotFound(method: string): Promise<boolean> {
+      try {
+        await adapter.processRequest({id: 0, method, params: {}});
+      } catch (e) {
+        return e instanceof ProtocolError &&
+            e.code === ErrorCode.METHOD_NOT_FOUND;
+      }
+      return false;
+    }
+
+    it('should list exactly the methods which are accepted', async () => {
+      assert.deepStrictEqual(
+          devtools.SUPPORTED_DOMAIN_LIST.map(
+              (supportedDomain) => supportedDomain.domain),
+          Array.from(domainMethodMap.keys()));
+      for (const {domain, methodList} of devtools.SUPPORTED_DOMAIN_LIST) {
+        const listedMethodSet = new Set<string>(methodList);
+        for (const method of domainMethodMap.get(domain)!) {
+          assert.strictEqual(
+              await isMethodNotFound(`${domain}.${method}`),
+              !listedMethodSet.has(method), `${domain}.${method}`);
+        }
+        for (const method of listedMethodSet) {
+          assert.ok(
+              domainMethodMap.get(domain)!.includes(method),
+              `${domain}.${method}`);
+        }
+      }
+    });
+  });
+
   describe('miscellaneous', () => {
     const unimplementedMethods = [
-      'getPossibleBreakpoints',
       'getStackTrace',
-      'searchInContent',
       'setBreakpoint',
       'setBreakpointOnFunctionCall',
     ];
@@ -249,15 +2045,10 @@ describe('adapter.ts', () => {
       'setSkipAllPauses',
     ];
     const unimplementableMethods = [
-      'continueToLocation',
-      'evaluateOnCallFrame',
       'restartFrame',
       'setReturnValue',
       'setScriptSource',
       'setVariableValue',
-      'stepInto',
-      'stepOut',
-      'stepOver',
     ];
     it('should send an empty response for unimplemented methods', async () => {
       const responseList = await Promise.all(unimplementedMethods.map(
@@ -0,0 +1,102 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {BREAKPOINT_SET_STATE_VERSION, getDebuggeeKey, readBreakpointSetState, toBreakpointRequest, writeBreakpointSetState} from '../src/breakpoint-sets';
+
+const assertRejects = require('assert-rejects');
+
+describe('breakpoint-sets.ts', () => {
+  let stateFile: string;
+
+  beforeEach(() => {
+    stateFile = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'state-')), 'state.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(stateFile)) {
+      fs.unlinkSync(stateFile);
+    }
+    fs.rmdirSync(path.dirname(stateFile));
+  });
+
+  it('should key debuggees by project and service', () => {
+    const debuggee = {
+      id: 'test-debuggee-id',
+      labels: {projectid: 'app', version: 'v1', module: 'api'},
+    };
+    assert.strictEqual(
+        getDebuggeeKey('test-project', debuggee), 'test-project/api');
+    assert.strictEqual(
+        getDebuggeeKey('test-project', {
+          id: 'test-debuggee-id',
+          labels: {projectid: 'app', version: 'v1'}
+        }),
+        'test-project/default');
+  });
+
+  it('should keep only what sets the breakpoint again', () => {
+    assert.deepStrictEqual(
+        toBreakpointRequest({
+          id: 'test-breakpoint-id',
+          action: 'CAPTURE',
+          location: {path: 'src/handler.js', line: 4},
+          condition: 'count > 1',
+          expressions: ['request.url'],
+          isFinalState: true,
+          createTime: '2018-06-01T10:00:00Z',
+          stackFrames: [],
+        }),
+        {
+          action: stackdriver.Action.CAPTURE,
+          location: {path: 'src/handler.js', line: 4},
+          condition: 'count > 1',
+          expressions: ['request.url'],
+        });
+  });
+
+  it('should read an empty state if the file does not exist', async () => {
+    assert.deepStrictEqual(
+        await readBreakpointSetState(stateFile),
+        {version: BREAKPOINT_SET_STATE_VERSION, breakpointSets: {}});
+  });
+
+  it('should read the written state', async () => {
+    const state = {
+      version: BREAKPOINT_SET_STATE_VERSION,
+      breakpointSets: {
+        'test-project/default': {
+          investigation: [{
+            action: stackdriver.Action.CAPTURE,
+            location: {path: 'src/handler.js', line: 4},
+          }],
+        },
+      },
+    };
+    await writeBreakpointSetState(stateFile, state);
+    assert.deepStrictEqual(await readBreakpointSetState(stateFile), state);
+  });
+
+  it('should throw on unsupported versions', async () => {
+    await writeBreakpointSetState(stateFile, {version: 0, breakpointSets: {}});
+    await assertRejects(
+        readBreakpointSetState(stateFile), /only version 1 is supported/);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import {Runtime} from 'inspector';
+import {callFunction, evaluateExpression, EvaluationContext, EvaluationError} from '../src/evaluate';
+
+function property(
+    name: string, value: Runtime.RemoteObject): Runtime.PropertyDescriptor {
+  return {name, configurable: false, enumerable: true, value};
+}
+
+const USER: Runtime.RemoteObject = {
+  type: 'object',
+  className: 'Object',
+  description: 'Object',
+  objectId: 'user',
+};
+const ITEMS: Runtime.RemoteObject = {
+  type: 'object',
+  subtype: 'array',
+  className: 'Array',
+  description: 'Array(2)',
+  objectId: 'items',
+};
+const TRUNCATED: Runtime.RemoteObject = {
+  type: 'object',
+  className: 'Object',
+  description: 'Object',
+};
+
+const PROPERTY_MAP =
+    new Map<Runtime.RemoteObjectId, Runtime.PropertyDescriptor[]>([
+      [
+        'scope',
+        [
+          property('user', USER),
+          property('items', ITEMS),
+          property('truncated', TRUNCATED),
+        ],
+      ],
+      [
+        'user',
+        [
+          property('id', {type: 'number', description: '42', value: 42}),
+          property('name', {type: 'string', value: 'ada'}),
+        ],
+      ],
+      [
+        'items',
+        [
+          property('0', {type: 'boolean', value: true}),
+          property('1', USER),
+          property('length', {type: 'number', description: '2', value: 2}),
+        ],
+      ],
+    ]);
+
+const CONTEXT: EvaluationContext = {
+  scopeObjectList: [{type: 'object', objectId: 'scope'}],
+  thisObject: USER,
+  getProperties: (objectId: Runtime.RemoteObjectId) =>
+      PROPERTY_MAP.get(objectId),
+};
+
+function evaluate(expression: string): Runtime.RemoteObject {
+  return evaluateExpression(expression, CONTEXT);
+}
+
+describe('evaluate.ts', () => {
+  it('should look up variables and properties', () => {
+    assert.strictEqual(evaluate('user'), USER);
+    assert.deepStrictEqual(
+        evaluate('user.name'), {type: 'string', value: 'ada'});
+    assert.deepStrictEqual(
+        evaluate('items[1]["id"]'),
+        {type: 'number', description: '42', value: 42});
+    assert.strictEqual(evaluate('this'), USER);
+  });
+
+  it('should compute arithmetic, comparisons and lengths', () => {
+    assert.deepStrictEqual(
+        evaluate('(user.id + 8) * 2 % 7'),
+        {type: 'number', description: '2', value: 2});
+    assert.deepStrictEqual(
+        evaluate('user.name.length === 3 && items.length > 1'),
+        {type: 'boolean', value: true});
+    assert.deepStrictEqual(evaluate('user.id / 0'), {
+      type: 'number',
+      description: 'Infinity',
+      unserializableValue: 'Infinity'
+    });
+    assert.deepStrictEqual(
+        evaluate('items[0] ? "yes" : "no"'), {type: 'string', value: 'yes'});
+    assert.deepStrictEqual(
+        evaluate('items[1] === user'), {type: 'boolean', value: true});
+  });
+
+  it('should coerce operands as JavaScript does', () => {
+    const TRUE = {type: 'boolean', value: true};
+    const FALSE = {type: 'boolean', value: false};
+    assert.deepStrictEqual(evaluate('user.id == "42"'), TRUE);
+    assert.deepStrictEqual(evaluate('null == undefined'), TRUE);
+    assert.deepStrictEqual(evaluate('null == 0'), FALSE);
+    assert.deepStrictEqual(evaluate('"1" != true'), FALSE);
+    assert.deepStrictEqual(evaluate('"10" < "9"'), TRUE);
+    assert.deepStrictEqual(evaluate('"10" < 9'), FALSE);
+    assert.deepStrictEqual(evaluate('undefined <= 1'), FALSE);
+    assert.deepStrictEqual(
+        evaluate('user.name + user.id'), {type: 'string', value: 'ada42'});
+    assert.deepStrictEqual(
+        evaluate('true + 1'), {type: 'number', description: '2', value: 2});
+  });
+
+  it('should stringify captured objects', () => {
+    assert.deepStrictEqual(
+        evaluate('JSON.stringify(items)'),
+        {type: 'string', value: '[true,{"id":42,"name":"ada"}]'});
+  });
+
+  it('should throw on data which was not captured', () => {
+    assert.throws(() => evaluate('missing'), EvaluationError);
+    assert.throws(() => evaluate('user.email'), /was not captured/);
+    assert.throws(() => evaluate('JSON.stringify(truncated)'), /not captured/);
+  });
+
+  it('should throw on expressions with side effects', () => {
+    assert.throws(() => evaluate('user.id = 1'), EvaluationError);
+    assert.throws(() => evaluate('process.exit()'), EvaluationError);
+    assert.throws(() => evaluate('user; items'), EvaluationError);
+    assert.throws(() => evaluate('user.id +'), /not a single expression/);
+  });
+
+  it('should call functions returning a single expression', () => {
+    assert.deepStrictEqual(
+        callFunction(
+            'function(key) { return this[key]; }', USER, [{value: 'name'}],
+            CONTEXT),
+        {type: 'string', value: 'ada'});
+    assert.throws(
+        () => callFunction(
+            'function() { const a = 1; return a; }', USER, [], CONTEXT),
+        EvaluationError);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import * as http from 'http';
+import {serveHttp} from '../src/http-server';
+import {setupLogger} from '../src/logger';
+
+const PORT_NUMBER = 9339;
+
+interface HttpResult {
+  statusCode?: number;
+  body: string;
+}
+
+/*
+ * @param path - path requested from the server under test
+ * @returns status and body of the response
+ */
+function get(path: string): Promise<HttpResult> {
+  return new Promise((resolve, reject) => {
+    http.get({host: 'localhost', port: PORT_NUMBER, path}, (response) => {
+          let body = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => body += chunk);
+          response.on(
+              'end', () => resolve({statusCode: response.statusCode, body}));
+        }).on('error', reject);
+  });
+}
+
+describe('http-server.ts', () => {
+  let server: http.Server;
+
+  before((done) => {
+    setupLogger('silly', 'test-http-server.log', false);
+    server = serveHttp(PORT_NUMBER);
+    server.on('listening', done);
+  });
+
+  after((done) => {
+    server.close(done);
+  });
+
+  it('should list the same target at /json and /json/list', async () => {
+    const targetList = JSON.parse((await get('/json')).body);
+    assert.strictEqual(targetList.length, 1);
+    assert.strictEqual(
+        targetList[0].webSocketDebuggerUrl, `ws://localhost:${PORT_NUMBER}`);
+    assert(targetList[0].id);
+    assert.deepStrictEqual(
+        JSON.parse((await get('/json/list/?t=1')).body), targetList);
+  });
+
+  it('should describe the protocol version', async () => {
+    const version = JSON.parse((await get('/json/version')).body);
+    assert.strictEqual(version['Protocol-Version'], '1.3');
+    assert(/^cloud-debug-proxy-devtools\//.test(version.Browser));
+  });
+
+  it('should describe only the supported protocol', async () => {
+    const schema = JSON.parse((await get('/json/protocol')).body);
+    const debuggerDomain = schema.domains.find(
+        (domain: {domain: string}) => domain.domain === 'Debugger');
+    const commandNameList =
+        debuggerDomain.commands.map((command: {name: string}) => command.name);
+    assert(commandNameList.includes('setBreakpointByUrl'));
+    assert(!commandNameList.includes('setScriptSource'));
+    assert.deepStrictEqual(
+        debuggerDomain.events.map((event: {name: string}) => event.name),
+        ['breakpointResolved', 'paused', 'resumed', 'scriptParsed']);
+  });
+
+  it('should not find other paths', async () => {
+    assert.strictEqual((await get('/json/new')).statusCode, 404);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import * as nock from 'nock';
+import {LogReader} from '../src/log-reader';
+import * as nocks from './nocks';
+
+const PROJECT_ID = 'keyfile-project-id';
+const LOGGING_URL = 'https://logging.googleapis.com';
+
+describe('log-reader.ts', () => {
+  afterEach(() => nock.cleanAll());
+
+  it('should read the lines logged since the last read', async () => {
+    const oauthScope = nocks.oauth2();
+    const logReader =
+        await LogReader.create(PROJECT_ID, './test/fixtures/keyfile.json');
+    const requestBodyList: Array<{filter: string, pageToken?: string}> = [];
+    const scope = nock(LOGGING_URL)
+                      .post(
+                          '/v2/entries:list',
+                          (body: {filter: string}) => {
+                            requestBodyList.push(body);
+                            return true;
+                          })
+                      .reply(200, {
+                        entries: [{
+                          insertId: 'a',
+                          timestamp: '2018-08-01T00:00:01Z',
+                          textPayload: 'LOGPOINT: user 1\n',
+                        }],
+                        nextPageToken: 'page-2',
+                      })
+                      .post('/v2/entries:list', () => true)
+                      .reply(200, {
+                        entries: [{
+                          insertId: 'b',
+                          timestamp: '2018-08-01T00:00:02Z',
+                          jsonPayload: {message: 'LOGPOINT: user 2'},
+                        }],
+                      })
+                      .post(
+                          '/v2/entries:list',
+                          (body: {filter: string}) => {
+                            requestBodyList.push(body);
+                            return true;
+                          })
+                      .reply(200, {
+                        entries: [
+                          {
+                            insertId: 'b',
+                            timestamp: '2018-08-01T00:00:02Z',
+                            jsonPayload: {message: 'LOGPOINT: user 2'},
+                          },
+                          {
+                            insertId: 'c',
+                            timestamp: '2018-08-01T00:00:02Z',
+                            textPayload: 'LOGPOINT: user 3',
+                          },
+                        ],
+                      });
+    assert.deepStrictEqual(
+        await logReader.readLogpointLines(),
+        ['LOGPOINT: user 1\n', 'LOGPOINT: user 2']);
+    // Entries at the time of the last read are skipped once.
+    assert.deepStrictEqual(
+        await logReader.readLogpointLines(), ['LOGPOINT: user 3']);
+    assert(/LOGPOINT:/.test(requestBodyList[0].filter));
+    assert(/timestamp>="2018-08-01T00:00:02Z"/.test(requestBodyList[1].filter));
+    scope.done();
+    oauthScope.done();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import * as fs from 'fs';
+import {Debugger} from 'inspector';
+import * as os from 'os';
+import * as path from 'path';
+import {parseStatements} from '../src/parse-statements';
+
+describe('parse-statements.ts', () => {
+  let scriptId: string;
+
+  beforeEach(() => {
+    const directory =
+        fs.mkdtempSync(path.join(os.tmpdir(), 'test-parse-statements-'));
+    scriptId = path.join(directory, 'index.js');
+    fs.writeFileSync(scriptId, 'let a = 1;\n\nreturn a;\n');
+  });
+
+  it('should find the statements of a script', async () => {
+    assert.deepStrictEqual(await parseStatements(scriptId), [
+      {scriptId, lineNumber: 0, columnNumber: 0},
+      {scriptId, lineNumber: 2, columnNumber: 0, type: 'return'},
+    ]);
+  });
+
+  it('should parse a script again once it is modified', async () => {
+    const breakLocationList = await parseStatements(scriptId);
+    assert.strictEqual(await parseStatements(scriptId), breakLocationList);
+    fs.writeFileSync(scriptId, 'debugger;\n');
+    const modifiedTime = new Date(Date.now() + 60 * 1000);
+    fs.utimesSync(scriptId, modifiedTime, modifiedTime);
+    assert.deepStrictEqual(
+        (await parseStatements(scriptId))
+            .map((location: Debugger.BreakLocation) => location.type),
+        ['debuggerStatement']);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import * as path from 'path';
+import {PathMapper} from '../src/path-mapping';
+
+const SOURCE_DIRECTORY = path.resolve('/home/test/repo');
+
+function local(relativePath: string): string {
+  return path.join(SOURCE_DIRECTORY, relativePath);
+}
+
+describe('path-mapping.ts', () => {
+  it('should send paths relative to the source directory', () => {
+    const pathMapper = new PathMapper(SOURCE_DIRECTORY);
+    assert.strictEqual(pathMapper.toRemote(local('src/a.js')), 'src/a.js');
+    assert.strictEqual(pathMapper.toLocal('src/a.js'), local('src/a.js'));
+  });
+
+  it('should not map paths outside of the source directory', () => {
+    const pathMapper = new PathMapper(SOURCE_DIRECTORY);
+    const outsidePath = path.resolve('/home/test/other/a.js');
+    assert.strictEqual(pathMapper.toRemote(outsidePath), outsidePath);
+    assert.strictEqual(pathMapper.toLocal(outsidePath), outsidePath);
+  });
+
+  it('should rewrite prefixes in both directions', () => {
+    const pathMapper = new PathMapper(SOURCE_DIRECTORY, {
+      prefixes: {'services/api': '', 'services/api/lib': 'vendor/lib'},
+    });
+    assert.strictEqual(
+        pathMapper.toRemote(local('services/api/src/a.js')), 'src/a.js');
+    assert.strictEqual(
+        pathMapper.toRemote(local('services/api/lib/b.js')), 'vendor/lib/b.js');
+    assert.strictEqual(
+        pathMapper.toLocal('src/a.js'), local('services/api/src/a.js'));
+    assert.strictEqual(
+        pathMapper.toLocal('vendor/lib/b.js'), local('services/api/lib/b.js'));
+  });
+
+  it('should strip leading components of deployed paths', () => {
+    const pathMapper = new PathMapper(SOURCE_DIRECTORY, {strip: 2});
+    assert.strictEqual(pathMapper.toLocal('/app/build/a.js'), local('a.js'));
+  });
+
+  it('should find local files by the ends of their paths', () => {
+    const pathMapper = new PathMapper(SOURCE_DIRECTORY);
+    const localPathList = [local('services/api/src/a.js'), local('src/b.js')];
+    assert.strictEqual(
+        pathMapper.toLocal('src/a.js', localPathList),
+        local('services/api/src/a.js'));
+    assert.strictEqual(
+        pathMapper.toLocal('src/b.js', localPathList), local('src/b.js'));
+  });
+});
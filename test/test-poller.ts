@@ -0,0 +1,127 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import {setupLogger} from '../src/logger';
+import {getBackoffMs, isTransientError, Poller, PollerHealth} from '../src/poller';
+
+/*
+ * @param status - HTTP status of the failed response
+ * @returns error as thrown by the Google APIs client
+ */
+function createApiError(status: number): Error {
+  return Object.assign(new Error(`Request failed with ${status}`), {
+    response: {status},
+  });
+}
+
+describe('poller.ts', () => {
+  before(() => {
+    setupLogger('silly', 'test-poller.log', false);
+  });
+
+  it('should only retry transient errors quickly', () => {
+    assert(isTransientError(createApiError(429)));
+    assert(isTransientError(createApiError(503)));
+    assert(isTransientError(createApiError(507)));
+    assert(isTransientError(Object.assign(new Error(), {code: 'ECONNRESET'})));
+    assert(isTransientError(Object.assign(new Error(), {code: 'EAI_AGAIN'})));
+    assert(!isTransientError(createApiError(403)));
+    assert(!isTransientError(Object.assign(new Error(), {code: 'ENOENT'})));
+    assert(!isTransientError(
+        Object.assign(new Error(), {code: 'ERR_INVALID_ARG_TYPE'})));
+    assert(!isTransientError(new TypeError()));
+  });
+
+  it('should back off exponentially with jitter', () => {
+    assert.strictEqual(getBackoffMs(1, 1000, 60000, 0), 500);
+    assert.strictEqual(getBackoffMs(3, 1000, 60000, 0.5), 3000);
+    assert.strictEqual(getBackoffMs(10, 1000, 60000, 0.999), 59970);
+    assert.strictEqual(getBackoffMs(Infinity, 1000, 60000, 0), 30000);
+  });
+
+  it('should retry failed polls and report its health', async () => {
+    let pollCount = 0;
+    const poller = new Poller(async () => {
+      if (++pollCount <= 2) {
+        throw createApiError(503);
+      }
+      if (pollCount > 3) {
+        // Blocks like a poll waiting for breakpoint changes.
+        await new Promise(() => {});
+      }
+    }, {initialBackoffMs: 2, maxBackoffMs: 4});
+    const healthList: PollerHealth[] = [];
+    const recovered = new Promise((resolve) => {
+      poller.on('health', (health: PollerHealth) => {
+        healthList.push(health);
+        if (health.consecutiveFailureCount === 0) {
+          resolve();
+        }
+      });
+    });
+    poller.start();
+    await recovered;
+    assert.deepStrictEqual(
+        healthList.map(
+            (health: PollerHealth) => health.consecutiveFailureCount),
+        [1, 2, 0]);
+    assert.strictEqual(healthList[1].lastError, 'Request failed with 503');
+    assert.strictEqual(healthList[2].lastError, undefined);
+    assert(healthList[2].lastSuccessTime);
+  });
+
+  it('should stop after the poll in progress', async () => {
+    let pollCount = 0;
+    let resolvePoll = () => {};
+    const poller = new Poller(() => {
+      pollCount++;
+      return new Promise<void>((resolve) => {
+        resolvePoll = resolve;
+      });
+    });
+    poller.start();
+    poller.start();
+    assert.strictEqual(pollCount, 1);
+    const stopped = poller.stop();
+    assert.strictEqual(poller.getHealth().polling, false);
+    resolvePoll();
+    await stopped;
+    assert.strictEqual(pollCount, 1);
+  });
+
+  it('should stop during a backoff', async () => {
+    const poller = new Poller(async () => {
+      throw createApiError(403);
+    }, {initialBackoffMs: 60000, maxBackoffMs: 60000});
+    const failed = new Promise((resolve) => poller.once('health', resolve));
+    poller.start();
+    await failed;
+    await poller.stop();
+    assert.strictEqual(poller.getHealth().consecutiveFailureCount, 1);
+  });
+
+  it('should wait between polls which do not block', async () => {
+    let pollCount = 0;
+    const poller = new Poller(async () => {
+      pollCount++;
+    }, {intervalMs: 60000});
+    const polled = new Promise((resolve) => poller.once('health', resolve));
+    poller.start();
+    await polled;
+    await poller.stop();
+    assert.strictEqual(pollCount, 1);
+  });
+});
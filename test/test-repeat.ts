@@ -0,0 +1,46 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import {parseRepeatCondition} from '../src/repeat';
+
+describe('repeat.ts', () => {
+  it('should ignore conditions without a repeat directive', () => {
+    assert.strictEqual(parseRepeatCondition(), null);
+    assert.strictEqual(parseRepeatCondition('x > 1'), null);
+    assert.strictEqual(parseRepeatCondition('/* other */ x > 1'), null);
+  });
+
+  it('should parse the number of snapshots and the time window', () => {
+    assert.deepStrictEqual(
+        parseRepeatCondition('/* repeat 5 */'),
+        {repeatOptions: {maxHitCount: 5}, condition: undefined});
+    assert.deepStrictEqual(
+        parseRepeatCondition('/* repeat 10m */'),
+        {repeatOptions: {windowMs: 10 * 60 * 1000}, condition: undefined});
+    assert.deepStrictEqual(
+        parseRepeatCondition('/*repeat 3, 1h*/ user.id === 42'), {
+          repeatOptions: {maxHitCount: 3, windowMs: 60 * 60 * 1000},
+          condition: 'user.id === 42',
+        });
+  });
+
+  it('should throw on invalid repeat directives', () => {
+    assert.throws(() => parseRepeatCondition('/* repeat */'), /positive/);
+    assert.throws(() => parseRepeatCondition('/* repeat 0 */'), /positive/);
+    assert.throws(() => parseRepeatCondition('/* repeat 5, 6 */'), /positive/);
+    assert.throws(() => parseRepeatCondition('/* repeat 5d */'), /positive/);
+  });
+});
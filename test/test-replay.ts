@@ -0,0 +1,87 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import {Debugger, Runtime} from 'inspector';
+import * as path from 'path';
+import * as devtools from '../src/adapter';
+import {setupLogger} from '../src/logger';
+import {ReplayDebugProxy} from '../src/replay';
+
+const assertRejects = require('assert-rejects');
+
+const DEBUGGER_ID = 'test-debugger-id';
+const SOURCE_DIRECTORY = path.resolve('test/fixtures/replay');
+const REPLAY_DIRECTORY = 'test/fixtures/replay';
+
+describe('replay.ts', () => {
+  let debugProxy: ReplayDebugProxy;
+  let adapter: devtools.Adapter;
+
+  before(() => {
+    setupLogger('silly', 'test-replay.log', false);
+  });
+
+  beforeEach(async () => {
+    debugProxy = new ReplayDebugProxy(
+        {debuggerId: DEBUGGER_ID, sourceDirectory: SOURCE_DIRECTORY},
+        REPLAY_DIRECTORY);
+    assert.strictEqual(await debugProxy.load(), 2);
+    adapter = new devtools.Adapter(debugProxy);
+  });
+
+  it('should list the saved breakpoints', () => {
+    assert.deepStrictEqual(
+        debugProxy.getSnapshotIdList(true), ['captured-snapshot-id']);
+    assert.deepStrictEqual(
+        debugProxy.getSnapshotIdList(false), ['pending-breakpoint-id']);
+  });
+
+  it('should load saved snapshots through the adapter', async () => {
+    const pausedEvent = await adapter.loadSnapshot('captured-snapshot-id');
+    const response = await adapter.processRequest({
+      id: 0,
+      method: 'Runtime.getProperties',
+      params: {
+        objectId: pausedEvent.callFrames[0].scopeChain[0].object.objectId!,
+      },
+    }) as Runtime.GetPropertiesReturnType;
+    assert.deepStrictEqual(
+        response.result[0].value, {type: 'number', description: '2', value: 2});
+  });
+
+  it('should capture breakpoints at the locations of snapshots', async () => {
+    let hitCount = 0;
+    debugProxy.on('breakpointHit', () => hitCount++);
+    const response = await adapter.processRequest({
+      id: 0,
+      method: 'Debugger.setBreakpointByUrl',
+      params: {
+        lineNumber: 3,
+        url: path.join(SOURCE_DIRECTORY, 'src/handler.js'),
+      },
+    }) as Debugger.SetBreakpointByUrlReturnType;
+    await adapter.updatePendingBreakpoints(false);
+    assert.strictEqual(hitCount, 1);
+    assert(debugProxy.getSnapshotIdList(true).includes(response.breakpointId));
+    const pausedEvent = await adapter.loadSnapshot(response.breakpointId);
+    assert.strictEqual(pausedEvent.callFrames[0].functionName, 'handler');
+  });
+
+  it('should throw on breakpoints which were not saved',
+     () => assertRejects(
+         debugProxy.getBreakpoint('missing-breakpoint-id'),
+         /is not in the replay directory/));
+});
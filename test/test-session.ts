@@ -0,0 +1,98 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import {Debugger} from 'inspector';
+import * as path from 'path';
+import * as devtools from '../src/adapter';
+import {setupLogger} from '../src/logger';
+import {ReplayDebugProxy} from '../src/replay';
+import {SessionManager} from '../src/session';
+
+const SOURCE_DIRECTORY = path.resolve('test/fixtures/replay');
+const REPLAY_DIRECTORY = 'test/fixtures/replay';
+
+describe('session.ts', () => {
+  let adapter: devtools.Adapter;
+  let sessionManager: SessionManager;
+  let pollCount: number;
+  let resolvePoll: () => void;
+
+  before(() => {
+    setupLogger('silly', 'test-session.log', false);
+  });
+
+  beforeEach(async () => {
+    const debugProxy = new ReplayDebugProxy(
+        {debuggerId: 'test-debugger-id', sourceDirectory: SOURCE_DIRECTORY},
+        REPLAY_DIRECTORY);
+    await debugProxy.load();
+    adapter = new devtools.Adapter(debugProxy);
+    pollCount = 0;
+    adapter.updatePendingBreakpoints = () => {
+      pollCount++;
+      return new Promise<void>((resolve) => {
+        resolvePoll = resolve;
+      });
+    };
+    sessionManager = new SessionManager(adapter);
+  });
+
+  it('should remove the listeners of closed sessions', () => {
+    const listenerCount = adapter.listenerCount('resume');
+    const session = sessionManager.open();
+    session.listen(adapter, 'resume', () => {});
+    assert.strictEqual(adapter.listenerCount('resume'), listenerCount + 1);
+    sessionManager.close(session);
+    assert.strictEqual(adapter.listenerCount('resume'), listenerCount);
+    session.listen(adapter, 'resume', () => {});
+    assert.strictEqual(adapter.listenerCount('resume'), listenerCount);
+  });
+
+  it('should poll once for all open sessions', async () => {
+    const firstSession = sessionManager.open();
+    const secondSession = sessionManager.open();
+    assert.strictEqual(pollCount, 1);
+    sessionManager.close(firstSession);
+    resolvePoll();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.strictEqual(pollCount, 2);
+    sessionManager.close(secondSession);
+    resolvePoll();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.strictEqual(pollCount, 2);
+    sessionManager.open();
+    assert.strictEqual(pollCount, 3);
+  });
+
+  it('should load each snapshot once for all sessions', async () => {
+    const pausedEventList: Debugger.PausedEventDataType[] = [];
+    for (const session of [sessionManager.open(), sessionManager.open()]) {
+      session.listen(
+          sessionManager, 'paused',
+          (params: {}) =>
+              pausedEventList.push(params as Debugger.PausedEventDataType));
+    }
+    const paused =
+        new Promise((resolve) => sessionManager.once('paused', resolve));
+    adapter.emitLoadSnapshot('captured-snapshot-id');
+    await paused;
+    assert.strictEqual(pausedEventList.length, 2);
+    assert.strictEqual(pausedEventList[0], pausedEventList[1]);
+    assert.strictEqual(sessionManager.getPausedEvent(), pausedEventList[0]);
+    adapter.emit('resume');
+    assert.strictEqual(sessionManager.getPausedEvent(), undefined);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as assert from 'assert';
+import {createSnapshotArchive, parseSnapshotArchive, SNAPSHOT_ARCHIVE_VERSION} from '../src/snapshot-archive';
+
+const SOURCE_PATH = 'src/handler.js';
+const SOURCE =
+    Array.from({length: 20}, (value: undefined, i: number) => `line ${i + 1}`)
+        .join('\n');
+
+const SNAPSHOT: stackdriver.CapturedSnapshot = {
+  id: 'test-snapshot-id',
+  isFinalState: true,
+  location: {path: SOURCE_PATH, line: 3},
+  stackFrames: [
+    {function: 'handler', location: {path: SOURCE_PATH, line: 3}},
+    {function: 'main', location: {path: 'src/missing.js', line: 10}},
+  ],
+  variableTable: [],
+};
+
+describe('snapshot-archive.ts', () => {
+  it('should keep the source lines around the locations', async () => {
+    const archive = await createSnapshotArchive(
+        SNAPSHOT,
+        async (path: stackdriver.SourcePath) =>
+            path === SOURCE_PATH ? SOURCE : undefined);
+    assert.strictEqual(archive.version, SNAPSHOT_ARCHIVE_VERSION);
+    assert.strictEqual(archive.snapshot, SNAPSHOT);
+    assert.deepStrictEqual(Object.keys(archive.sourceLines), [SOURCE_PATH]);
+    assert.deepStrictEqual(
+        Object.keys(archive.sourceLines[SOURCE_PATH]),
+        ['1', '2', '3', '4', '5', '6', '7', '8']);
+    assert.strictEqual(archive.sourceLines[SOURCE_PATH][3], 'line 3');
+  });
+
+  it('should parse archives of the supported version', async () => {
+    const archive =
+        await createSnapshotArchive(SNAPSHOT, async () => undefined);
+    assert.deepStrictEqual(
+        parseSnapshotArchive(JSON.stringify(archive)), archive);
+    assert.throws(
+        () => parseSnapshotArchive(JSON.stringify({...archive, version: 2})),
+        /only version 1 is supported/);
+    assert.throws(
+        () => parseSnapshotArchive(JSON.stringify(
+            {...archive, snapshot: {...SNAPSHOT, isFinalState: false}})),
+        /does not hold a captured snapshot/);
+  });
+
+  it('should reject snapshots without valid locations', () => {
+    const parse = (snapshot: {}) => parseSnapshotArchive(JSON.stringify(
+        {version: SNAPSHOT_ARCHIVE_VERSION, snapshot, sourceLines: {}}));
+    assert.throws(
+        () => parse({...SNAPSHOT, location: {path: SOURCE_PATH}}),
+        /has no location with a path and a line/);
+    assert.throws(
+        () => parse({...SNAPSHOT, stackFrames: undefined}),
+        /has no stack frames/);
+    assert.throws(
+        () => parse({...SNAPSHOT, stackFrames: [{function: 'handler'}]}),
+        /Stack frame 0 of the snapshot/);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as stackdriver from '@google-cloud/debug-proxy-common';
+import * as assert from 'assert';
+import {diffSnapshots, formatSnapshotDiff} from '../src/snapshot-diff';
+
+const LOCATION = {
+  path: 'src/handler.js',
+  line: 4
+};
+
+function snapshot(
+    id: string, locals: stackdriver.Variable[],
+    variableTable: stackdriver.Variable[]): stackdriver.CapturedSnapshot {
+  return {
+    id,
+    isFinalState: true,
+    location: LOCATION,
+    stackFrames: [{function: 'handler', location: LOCATION, locals}],
+    variableTable,
+  };
+}
+
+const BEFORE = snapshot(
+    'before',
+    [
+      {name: 'count', value: '1'},
+      {name: 'user', varTableIndex: 0},
+      {name: 'stale', value: 'true'},
+    ],
+    [{
+      value: '#<Object>',
+      members: [
+        {name: 'name', value: 'ada'},
+        {name: 'self', varTableIndex: 0},
+      ],
+    }]);
+const AFTER = snapshot(
+    'after',
+    [
+      {name: 'count', value: '2'},
+      {name: 'user', varTableIndex: 0},
+      {name: 'fresh', value: 'null'},
+    ],
+    [{
+      value: '#<Object>',
+      members: [
+        {name: 'name', value: 'grace'},
+        {name: 'self', varTableIndex: 0},
+        {name: 'email', value: 'grace@example.com'},
+      ],
+    }]);
+
+describe('snapshot-diff.ts', () => {
+  it('should report added, removed and changed variables', () => {
+    const diff = diffSnapshots(BEFORE, AFTER);
+    assert.strictEqual(diff.frameDiffList.length, 1);
+    assert.deepStrictEqual(diff.frameDiffList[0].changeList, [
+      {kind: 'changed', path: 'count', before: '1', after: '2'},
+      {kind: 'changed', path: 'user.name', before: 'ada', after: 'grace'},
+      {kind: 'added', path: 'user.email', after: 'grace@example.com'},
+      {kind: 'removed', path: 'stale', before: 'true'},
+      {kind: 'added', path: 'fresh', after: 'null'},
+    ]);
+  });
+
+  it('should report no differences for the same snapshot', () => {
+    assert.deepStrictEqual(diffSnapshots(BEFORE, BEFORE).frameDiffList, []);
+  });
+
+  it('should format the differences as text', () => {
+    assert.strictEqual(formatSnapshotDiff(diffSnapshots(BEFORE, AFTER)), [
+      'Snapshot before -> after',
+      '  Frame 0: handler',
+      '    ~ count: 1 -> 2',
+      '    ~ user.name: ada -> grace',
+      '    + user.email = grace@example.com',
+      '    - stale = true',
+      '    + fresh = null',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Copyright 2018 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as assert from 'assert';
+import * as path from 'path';
+import {setupLogger} from '../src/logger';
+import {SourceMapper} from '../src/source-maps';
+
+const SOURCE_DIRECTORY = path.resolve('test/fixtures/source-maps');
+const ORIGINAL_PATH = path.join(SOURCE_DIRECTORY, 'src/greet.ts');
+const GENERATED_PATH = path.join(SOURCE_DIRECTORY, 'build/greet.js');
+
+describe('source-maps.ts', () => {
+  let sourceMapper: SourceMapper;
+
+  before(() => {
+    setupLogger('silly', 'test-source-maps.log', false);
+  });
+
+  beforeEach(() => {
+    sourceMapper = new SourceMapper(SOURCE_DIRECTORY);
+  });
+
+  it('should map original lines to generated lines', async () => {
+    assert.deepStrictEqual(
+        await sourceMapper.originalToGenerated({path: ORIGINAL_PATH, line: 6}),
+        {path: GENERATED_PATH, line: 4});
+  });
+
+  it('should map generated lines to original lines', async () => {
+    assert.deepStrictEqual(
+        await sourceMapper.generatedToOriginal({path: GENERATED_PATH, line: 5}),
+        {path: ORIGINAL_PATH, line: 7});
+  });
+
+  it('should not map lines without source maps', async () => {
+    assert.strictEqual(
+        await sourceMapper.originalToGenerated({path: GENERATED_PATH, line: 4}),
+        null);
+    assert.strictEqual(
+        await sourceMapper.generatedToOriginal({path: ORIGINAL_PATH, line: 6}),
+        null);
+  });
+});